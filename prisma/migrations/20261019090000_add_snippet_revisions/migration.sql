@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "snippet_revisions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "content" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "snippetId" TEXT NOT NULL,
+    "editorId" TEXT NOT NULL,
+
+    CONSTRAINT "snippet_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "snippet_revisions_snippetId_idx" ON "snippet_revisions"("snippetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "snippet_revisions_snippetId_version_key" ON "snippet_revisions"("snippetId", "version");
+
+-- AddForeignKey
+ALTER TABLE "snippet_revisions" ADD CONSTRAINT "snippet_revisions_snippetId_fkey" FOREIGN KEY ("snippetId") REFERENCES "snippets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "snippet_revisions" ADD CONSTRAINT "snippet_revisions_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
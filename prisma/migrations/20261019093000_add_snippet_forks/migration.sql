@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'FORK';
+
+-- AlterTable
+ALTER TABLE "snippets" ADD COLUMN     "forkedFromId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "snippets_forkedFromId_idx" ON "snippets"("forkedFromId");
+
+-- AddForeignKey
+ALTER TABLE "snippets" ADD CONSTRAINT "snippets_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "snippets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
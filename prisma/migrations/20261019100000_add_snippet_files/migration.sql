@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "snippet_revisions" ADD COLUMN     "files" JSONB;
+
+-- CreateTable
+CREATE TABLE "snippet_files" (
+    "id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "snippetId" TEXT NOT NULL,
+
+    CONSTRAINT "snippet_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "snippet_files_snippetId_idx" ON "snippet_files"("snippetId");
+
+-- CreateIndex
+CREATE INDEX "snippet_files_language_idx" ON "snippet_files"("language");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "snippet_files_snippetId_filename_key" ON "snippet_files"("snippetId", "filename");
+
+-- AddForeignKey
+ALTER TABLE "snippet_files" ADD CONSTRAINT "snippet_files_snippetId_fkey" FOREIGN KEY ("snippetId") REFERENCES "snippets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing snippet becomes a single-file snippet
+INSERT INTO "snippet_files" ("id", "filename", "language", "content", "position", "snippetId")
+SELECT
+    'sf_' || "id",
+    'snippet.' || CASE lower("language")
+        WHEN 'javascript' THEN 'js'
+        WHEN 'typescript' THEN 'ts'
+        WHEN 'jsx' THEN 'jsx'
+        WHEN 'tsx' THEN 'tsx'
+        WHEN 'python' THEN 'py'
+        WHEN 'java' THEN 'java'
+        WHEN 'go' THEN 'go'
+        WHEN 'rust' THEN 'rs'
+        WHEN 'ruby' THEN 'rb'
+        WHEN 'php' THEN 'php'
+        WHEN 'c' THEN 'c'
+        WHEN 'cpp' THEN 'cpp'
+        WHEN 'csharp' THEN 'cs'
+        WHEN 'html' THEN 'html'
+        WHEN 'css' THEN 'css'
+        WHEN 'json' THEN 'json'
+        WHEN 'yaml' THEN 'yml'
+        WHEN 'sql' THEN 'sql'
+        WHEN 'bash' THEN 'sh'
+        WHEN 'shell' THEN 'sh'
+        WHEN 'markdown' THEN 'md'
+        ELSE 'txt'
+    END,
+    "language",
+    "content",
+    0,
+    "id"
+FROM "snippets";
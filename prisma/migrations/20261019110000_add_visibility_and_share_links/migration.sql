@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "Visibility" AS ENUM ('PUBLIC', 'UNLISTED', 'PRIVATE');
+
+-- AlterTable
+ALTER TABLE "snippets" ADD COLUMN     "visibility" "Visibility" NOT NULL DEFAULT 'PUBLIC';
+UPDATE "snippets" SET "visibility" = 'PRIVATE' WHERE "isPublic" = false;
+ALTER TABLE "snippets" DROP COLUMN "isPublic";
+
+-- AlterTable
+ALTER TABLE "docs" ADD COLUMN     "visibility" "Visibility" NOT NULL DEFAULT 'PUBLIC';
+UPDATE "docs" SET "visibility" = 'PRIVATE' WHERE "isPublic" = false;
+ALTER TABLE "docs" DROP COLUMN "isPublic";
+
+-- CreateTable
+CREATE TABLE "share_links" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT NOT NULL,
+    "snippetId" TEXT,
+    "docId" TEXT,
+
+    CONSTRAINT "share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_links_token_key" ON "share_links"("token");
+
+-- CreateIndex
+CREATE INDEX "share_links_snippetId_idx" ON "share_links"("snippetId");
+
+-- CreateIndex
+CREATE INDEX "share_links_docId_idx" ON "share_links"("docId");
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_snippetId_fkey" FOREIGN KEY ("snippetId") REFERENCES "snippets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_docId_fkey" FOREIGN KEY ("docId") REFERENCES "docs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
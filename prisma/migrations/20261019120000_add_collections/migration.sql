@@ -0,0 +1,96 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'COLLECTION_ITEM_ADDED';
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "collectionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "share_links" ADD COLUMN     "collectionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "collections" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "visibility" "Visibility" NOT NULL DEFAULT 'PUBLIC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "ownerId" TEXT NOT NULL,
+
+    CONSTRAINT "collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collection_items" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "collectionId" TEXT NOT NULL,
+    "snippetId" TEXT,
+    "docId" TEXT,
+    "bugId" TEXT,
+
+    CONSTRAINT "collection_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collection_follows" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "collectionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "collection_follows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "share_links_collectionId_idx" ON "share_links"("collectionId");
+
+-- CreateIndex
+CREATE INDEX "collections_ownerId_idx" ON "collections"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "collection_items_collectionId_idx" ON "collection_items"("collectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_items_collectionId_snippetId_key" ON "collection_items"("collectionId", "snippetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_items_collectionId_docId_key" ON "collection_items"("collectionId", "docId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_items_collectionId_bugId_key" ON "collection_items"("collectionId", "bugId");
+
+-- CreateIndex
+CREATE INDEX "collection_follows_userId_idx" ON "collection_follows"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collection_follows_collectionId_userId_key" ON "collection_follows"("collectionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collections" ADD CONSTRAINT "collections_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_snippetId_fkey" FOREIGN KEY ("snippetId") REFERENCES "snippets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_docId_fkey" FOREIGN KEY ("docId") REFERENCES "docs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_items" ADD CONSTRAINT "collection_items_bugId_fkey" FOREIGN KEY ("bugId") REFERENCES "bugs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_follows" ADD CONSTRAINT "collection_follows_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_follows" ADD CONSTRAINT "collection_follows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
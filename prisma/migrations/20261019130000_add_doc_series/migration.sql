@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'NEW_CHAPTER';
+
+-- AlterTable
+ALTER TABLE "docs" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "seriesPosition" INTEGER;
+
+-- CreateTable
+CREATE TABLE "doc_series" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "coverImage" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "authorId" TEXT NOT NULL,
+
+    CONSTRAINT "doc_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "docs_seriesId_seriesPosition_idx" ON "docs"("seriesId", "seriesPosition");
+
+-- CreateIndex
+CREATE INDEX "doc_series_authorId_idx" ON "doc_series"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "docs" ADD CONSTRAINT "docs_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "doc_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "doc_series" ADD CONSTRAINT "doc_series_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "PublishStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "snippets" ADD COLUMN     "status" "PublishStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "publishedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "docs" ADD COLUMN     "status" "PublishStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "publishedAt" TIMESTAMP(3);
+
+-- Existing content was published when it was created
+UPDATE "snippets" SET "publishedAt" = "createdAt";
+UPDATE "docs" SET "publishedAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "snippets_status_publishAt_idx" ON "snippets"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "docs_status_publishAt_idx" ON "docs"("status", "publishAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "docs" ADD COLUMN     "toc" JSONB,
+ADD COLUMN     "wordCount" INTEGER,
+ADD COLUMN     "readingTime" INTEGER;
+
+-- Rough estimate for existing docs so list cards have a reading time straight away;
+-- the exact figures and table of contents are stored the next time each doc is read or saved
+UPDATE "docs" SET "wordCount" = COALESCE(array_length(regexp_split_to_array(btrim("content"), '\s+'), 1), 0);
+UPDATE "docs" SET "readingTime" = GREATEST(1, ROUND("wordCount" / 200.0));
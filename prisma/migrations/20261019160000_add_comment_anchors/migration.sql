@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "anchorFile" TEXT,
+ADD COLUMN     "anchorStartLine" INTEGER,
+ADD COLUMN     "anchorEndLine" INTEGER,
+ADD COLUMN     "anchorHeading" TEXT,
+ADD COLUMN     "anchorParagraph" INTEGER,
+ADD COLUMN     "anchorText" TEXT,
+ADD COLUMN     "anchorOutdated" BOOLEAN NOT NULL DEFAULT false;
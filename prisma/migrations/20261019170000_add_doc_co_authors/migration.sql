@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "doc_co_authors" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "docId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "doc_co_authors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "doc_co_authors_userId_idx" ON "doc_co_authors"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "doc_co_authors_docId_userId_key" ON "doc_co_authors"("docId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "doc_co_authors" ADD CONSTRAINT "doc_co_authors_docId_fkey" FOREIGN KEY ("docId") REFERENCES "docs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "doc_co_authors" ADD CONSTRAINT "doc_co_authors_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "bugs" ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- Bugs that expired before archiving existed
+UPDATE "bugs" SET "archivedAt" = "expiresAt" WHERE "expiresAt" <= CURRENT_TIMESTAMP;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ANSWER_ACCEPTED';
+
+-- AlterTable
+ALTER TABLE "bugs" ADD COLUMN     "acceptedAnswerId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bugs_acceptedAnswerId_key" ON "bugs"("acceptedAnswerId");
+
+-- AddForeignKey
+ALTER TABLE "bugs" ADD CONSTRAINT "bugs_acceptedAnswerId_fkey" FOREIGN KEY ("acceptedAnswerId") REFERENCES "comments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "bugs" ADD COLUMN     "runtime" TEXT,
+ADD COLUMN     "runtimeVersion" TEXT,
+ADD COLUMN     "os" TEXT,
+ADD COLUMN     "browser" TEXT,
+ADD COLUMN     "framework" TEXT,
+ADD COLUMN     "frameworkVersion" TEXT,
+ADD COLUMN     "reproSteps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "expectedResult" TEXT,
+ADD COLUMN     "actualResult" TEXT,
+ADD COLUMN     "reproSnippetId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "bugs_runtime_idx" ON "bugs"("runtime");
+
+-- CreateIndex
+CREATE INDEX "bugs_framework_idx" ON "bugs"("framework");
+
+-- AddForeignKey
+ALTER TABLE "bugs" ADD CONSTRAINT "bugs_reproSnippetId_fkey" FOREIGN KEY ("reproSnippetId") REFERENCES "snippets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'BUG_ASSIGNED';
+
+-- CreateTable
+CREATE TABLE "bug_assignees" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bugId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "bug_assignees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bug_watchers" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bugId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "bug_watchers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bug_status_changes" (
+    "id" TEXT NOT NULL,
+    "fromStatus" "BugStatus",
+    "toStatus" "BugStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bugId" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+
+    CONSTRAINT "bug_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bug_assignees_bugId_userId_key" ON "bug_assignees"("bugId", "userId");
+
+-- CreateIndex
+CREATE INDEX "bug_assignees_userId_idx" ON "bug_assignees"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bug_watchers_bugId_userId_key" ON "bug_watchers"("bugId", "userId");
+
+-- CreateIndex
+CREATE INDEX "bug_watchers_userId_idx" ON "bug_watchers"("userId");
+
+-- CreateIndex
+CREATE INDEX "bug_status_changes_bugId_createdAt_idx" ON "bug_status_changes"("bugId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "bug_assignees" ADD CONSTRAINT "bug_assignees_bugId_fkey" FOREIGN KEY ("bugId") REFERENCES "bugs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bug_assignees" ADD CONSTRAINT "bug_assignees_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bug_watchers" ADD CONSTRAINT "bug_watchers_bugId_fkey" FOREIGN KEY ("bugId") REFERENCES "bugs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bug_watchers" ADD CONSTRAINT "bug_watchers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bug_status_changes" ADD CONSTRAINT "bug_status_changes_bugId_fkey" FOREIGN KEY ("bugId") REFERENCES "bugs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bug_status_changes" ADD CONSTRAINT "bug_status_changes_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "bugs" ADD COLUMN     "mergedIntoId" TEXT,
+ADD COLUMN     "mergedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "bugs_mergedIntoId_idx" ON "bugs"("mergedIntoId");
+
+-- AddForeignKey
+ALTER TABLE "bugs" ADD CONSTRAINT "bugs_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "bugs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "bugs" ADD COLUMN     "errorType" TEXT,
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "errorFingerprint" TEXT,
+ADD COLUMN     "stackTrace" JSONB;
+
+-- CreateIndex
+CREATE INDEX "bugs_errorType_idx" ON "bugs"("errorType");
+
+-- CreateIndex
+CREATE INDEX "bugs_errorFingerprint_idx" ON "bugs"("errorFingerprint");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "bug_view_events" (
+    "id" TEXT NOT NULL,
+    "viewerHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bugId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "bug_view_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bug_view_events_bugId_createdAt_idx" ON "bug_view_events"("bugId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "bug_view_events_bugId_viewerHash_idx" ON "bug_view_events"("bugId", "viewerHash");
+
+-- AddForeignKey
+ALTER TABLE "bug_view_events" ADD CONSTRAINT "bug_view_events_bugId_fkey" FOREIGN KEY ("bugId") REFERENCES "bugs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bug_view_events" ADD CONSTRAINT "bug_view_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'BUG_ESCALATED';
+
+-- AlterTable
+ALTER TABLE "bugs" ADD COLUMN     "escalatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "tag_follows" (
+    "id" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "tag_follows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bugs_escalatedAt_idx" ON "bugs"("escalatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tag_follows_userId_tag_key" ON "tag_follows"("userId", "tag");
+
+-- CreateIndex
+CREATE INDEX "tag_follows_tag_idx" ON "tag_follows"("tag");
+
+-- AddForeignKey
+ALTER TABLE "tag_follows" ADD CONSTRAINT "tag_follows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
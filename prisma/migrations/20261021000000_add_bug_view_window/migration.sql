@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "bug_view_events" ADD COLUMN "viewWindow" INTEGER;
+
+-- Backfill the 30-minute slot of existing views
+UPDATE "bug_view_events" SET "viewWindow" = FLOOR(EXTRACT(EPOCH FROM "createdAt") / 1800);
+
+-- Drop views recorded twice in one slot by concurrent requests, which the new constraint rejects
+DELETE FROM "bug_view_events" a
+USING "bug_view_events" b
+WHERE a."bugId" = b."bugId"
+  AND a."viewerHash" = b."viewerHash"
+  AND a."viewWindow" = b."viewWindow"
+  AND a."id" > b."id";
+
+ALTER TABLE "bug_view_events" ALTER COLUMN "viewWindow" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "bug_view_events_bugId_viewerHash_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bug_view_events_bugId_viewerHash_viewWindow_key" ON "bug_view_events"("bugId", "viewerHash", "viewWindow");
@@ -148,6 +148,18 @@ result = slow_function()  # Prints: slow_function took 1.0001 seconds`,
     }),
   ]);
 
+  // Snippet code is stored per file; each sample is a single-file snippet
+  const snippetFilenames = ['useApi.js', 'center.css', 'timer.py'];
+  await prisma.snippetFile.createMany({
+    data: snippets.map((snippet, index) => ({
+      snippetId: snippet.id,
+      filename: snippetFilenames[index],
+      language: snippet.language,
+      content: snippet.content,
+      position: 0,
+    })),
+  });
+
   console.log('✅ Created sample snippets');
 
   // Create sample docs
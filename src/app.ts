@@ -1,7 +1,6 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import session from 'express-session';
 import passport from 'passport';
 import cron from 'node-cron';
 import dotenv from 'dotenv';
@@ -12,9 +11,12 @@ import rateLimit from 'express-rate-limit';
 import fs from 'fs';
 const swaggerFile = JSON.parse(fs.readFileSync('./swagger-output.json', 'utf-8'));
 
-import { prisma } from './config/db';
 import { configurePassport } from './config/passport';
+import { sessionMiddleware } from './config/session';
 import { errorHandler } from './middlewares/errorHandler';
+import { publishScheduledContent } from './services/publishingService';
+import { archiveExpiredBugs } from './services/bugLifecycleService';
+import { escalateStaleBugs } from './services/bugEscalationService';
 
 import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
@@ -31,6 +33,8 @@ import moderationRoutes from './routes/moderationRoutes';
 import settingsRoutes from './routes/settingsRoutes';
 import feedRoutes from './routes/feedRoutes';
 import notificationRoutes from './routes/notificationRoutes';
+import collectionRoutes from './routes/collectionRoutes';
+import seriesRoutes from './routes/seriesRoutes';
 
 dotenv.config();
 
@@ -102,16 +106,7 @@ app.use(express.static(path.join(__dirname, '../public')));
 app.use('/swagger-output.json', express.static(path.join(__dirname, '../swagger-output.json')));
 
 // --- Session and Passport Configuration ---
-app.use(session({
-  secret: process.env.SESSION_SECRET || 'your-secret-key',
-  resave: false,
-  saveUninitialized: false,
-  cookie: {
-    secure: process.env.NODE_ENV === 'production',
-    httpOnly: true,
-    maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
-  },
-}));
+app.use(sessionMiddleware);
 
 configurePassport(passport);
 app.use(passport.initialize());
@@ -146,6 +141,8 @@ app.use('/api/upload', uploadRoutes);
 app.use('/api/moderation', moderationRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/collections', collectionRoutes);
+app.use('/api/series', seriesRoutes);
 
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
@@ -157,10 +154,34 @@ app.get('/health', (req, res) => {
 // --- Cron Job ---
 cron.schedule('0 * * * *', async () => {
     try {
-      await prisma.bug.deleteMany({ where: { expiresAt: { lt: new Date() } } });
-      console.log('Expired bugs cleaned up');
+      const archived = await archiveExpiredBugs();
+      if (archived > 0) {
+        console.log(`Archived ${archived} expired bug(s)`);
+      }
+    } catch (error) {
+      console.error('Error archiving expired bugs:', error);
+    }
+});
+
+cron.schedule('*/5 * * * *', async () => {
+    try {
+      const escalated = await escalateStaleBugs();
+      if (escalated > 0) {
+        console.log(`Escalated ${escalated} unanswered high-severity bug(s)`);
+      }
+    } catch (error) {
+      console.error('Error escalating bugs:', error);
+    }
+});
+
+cron.schedule('* * * * *', async () => {
+    try {
+      const published = await publishScheduledContent();
+      if (published > 0) {
+        console.log(`Published ${published} scheduled item(s)`);
+      }
     } catch (error) {
-      console.error('Error cleaning up expired bugs:', error);
+      console.error('Error publishing scheduled content:', error);
     }
 });
 
@@ -0,0 +1,15 @@
+import 'dotenv/config';
+import session from 'express-session';
+
+// Shared by the HTTP app and the Socket.IO handshake, so sockets see the same logged-in user.
+// Loads .env itself since it's created on import, before app.ts calls dotenv.config().
+export const sessionMiddleware = session({
+  secret: process.env.SESSION_SECRET || 'your-secret-key',
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: process.env.NODE_ENV === 'production',
+    httpOnly: true,
+    maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
+  },
+});
@@ -5,6 +5,19 @@ import { z } from 'zod';
 import { asyncHandler } from '../utils/asyncHandler';
 import { emitToFollowers } from '../socket';
 import * as notificationService from '../services/notificationService';
+import { applySecretPolicy, secretsErrorBody } from '../services/secretScanService';
+import { isOpenToEveryone } from '../services/shareService';
+import { canChangeBugStatus, notifyBugSubscribers, recordStatusChange } from '../services/bugTriageService';
+import { BugMergeError, findDuplicateBugs, mergeBug as mergeDuplicateBug } from '../services/bugDuplicateService';
+import { getStackTraceFields, parseStackTrace } from '../services/stackTraceService';
+import { getBugViewSummary as summarizeBugViews, recordBugView } from '../services/bugAnalyticsService';
+import {
+  getBugLifetimeBounds,
+  getExtendedBugExpiry,
+  getInProgressBugExpiry,
+  getNewBugExpiry,
+  isBugArchived,
+} from '../services/bugLifecycleService';
 
 // --- Type Definitions for Bug Controller ---
 
@@ -34,20 +47,89 @@ type BugFromList = Bug & ContentCounts & Partial<UserInteractions> & {
 };
 
 // Zod schema for bug creation
+// Longest report body accepted, which keeps the text searched for traces, secrets and duplicates bounded
+const MAX_BUG_CONTENT_LENGTH = 50000;
+
 const bugSchema = z.object({
   title: z.string().min(1, "Title is required").max(100),
   description: z.string().min(1, "Description is required").max(500),
-  content: z.string().min(1, "Content is required"),
+  content: z.string().min(1, "Content is required").max(MAX_BUG_CONTENT_LENGTH),
   severity: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).default('MEDIUM'),
   tags: z.array(z.string()).default([]),
   media: z.array(z.string()).optional(),
+  // Environment
+  runtime: z.string().trim().min(1).max(50).optional(), // e.g. "Node.js", "Python"
+  runtimeVersion: z.string().trim().min(1).max(50).optional(),
+  os: z.string().trim().min(1).max(50).optional(),
+  browser: z.string().trim().min(1).max(50).optional(),
+  framework: z.string().trim().min(1).max(50).optional(),
+  frameworkVersion: z.string().trim().min(1).max(50).optional(),
+  // Reproduction
+  reproSteps: z.array(z.string().trim().min(1, "Reproduction steps can't be empty").max(500)).max(30).default([]),
+  expectedResult: z.string().trim().min(1).max(2000).optional(),
+  actualResult: z.string().trim().min(1).max(2000).optional(),
+  reproSnippetId: z.string().min(1).optional(), // A public snippet with a minimal reproduction
+  redactSecrets: z.boolean().optional(), // Replace detected secrets instead of rejecting the report
+  lifetimeHours: z.number().int().positive().optional(), // Within the admin-configured bounds
 });
 
+// Environment fields getAllBugs can filter on. Versions match by prefix, so "18" finds "18.2.0".
+const environmentFilters = ['runtime', 'os', 'browser', 'framework'] as const;
+const versionFilters = ['runtimeVersion', 'frameworkVersion'] as const;
+
+// The linked reproduction snippet, as shown with a bug
+const reproSnippetInclude = {
+  reproSnippet: {
+    select: { id: true, title: true, language: true, authorId: true, visibility: true, status: true },
+  },
+};
+
 // Zod schema for bug status update
 const updateStatusSchema = z.object({
     status: z.enum(['OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED']),
 });
 
+// Zod schema for accepting an answer
+const acceptAnswerSchema = z.object({
+    commentId: z.string().min(1),
+});
+
+// The comment marked as the solution, as shown with a bug
+const acceptedAnswerInclude = {
+  acceptedAnswer: {
+    select: {
+      id: true,
+      content: true,
+      createdAt: true,
+      author: {
+        select: { id: true, username: true, name: true, avatar: true },
+      },
+    },
+  },
+};
+
+// Zod schema for assigning a helper
+const assigneeSchema = z.object({
+    username: z.string().trim().min(1, "username is required"),
+});
+
+// Zod schema for checking a report for duplicates before it is submitted
+const duplicateCheckSchema = z.object({
+    title: z.string().min(1, "Title is required").max(100),
+    description: z.string().max(500).optional(),
+    content: z.string().max(MAX_BUG_CONTENT_LENGTH).optional(),
+});
+
+// Zod schema for merging a duplicate into the canonical bug
+const mergeBugSchema = z.object({
+    targetId: z.string().min(1),
+});
+
+// Zod schema for extending a bug's lifetime
+const extendBugSchema = z.object({
+    hours: z.number().int().positive().optional(),
+});
+
 
 // Get all active bugs with pagination
 export const getAllBugs = asyncHandler(async (req: Request, res: Response) => {
@@ -74,17 +156,30 @@ export const getAllBugs = asyncHandler(async (req: Request, res: Response) => {
     if (severity) where.severity = severity;
     if (status) where.status = status;
     if (tags) where.tags = { hasSome: tags.split(',') };
+    for (const field of environmentFilters) {
+      const value = req.query[field];
+      if (typeof value === 'string' && value) where[field] = { equals: value, mode: 'insensitive' };
+    }
+    for (const field of versionFilters) {
+      const value = req.query[field];
+      if (typeof value === 'string' && value) where[field] = { startsWith: value };
+    }
+    // Every report of the same crash
+    if (typeof req.query.errorType === 'string' && req.query.errorType) where.errorType = req.query.errorType;
+    if (typeof req.query.fingerprint === 'string' && req.query.fingerprint) where.errorFingerprint = req.query.fingerprint;
 
     const [bugs, total] = await Promise.all([
       prisma.bug.findMany({
         where,
         skip,
         take: limit,
-        orderBy: { createdAt: 'desc' },
+        // Escalated bugs need attention first
+        orderBy: [{ escalatedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
         include: {
           author: {
             select: { id: true, username: true, name: true, avatar: true },
           },
+          ...acceptedAnswerInclude,
           _count: {
             select: { likes: true, comments: true, bookmarks: true, views: true },
           },
@@ -99,6 +194,7 @@ export const getAllBugs = asyncHandler(async (req: Request, res: Response) => {
 
     const formattedBugs = (bugs as BugFromList[]).map(bug => ({
         ...bug,
+        isEscalated: bug.escalatedAt !== null,
         isLiked: bug.likes ? bug.likes.length > 0 : false,
         isBookmarked: bug.bookmarks ? bug.bookmarks.length > 0 : false,
         likesCount: bug._count.likes,
@@ -126,6 +222,16 @@ export const getBugById = asyncHandler(async (req: Request, res: Response) => {
         author: {
           select: { id: true, username: true, name: true, avatar: true },
         },
+        ...acceptedAnswerInclude,
+        ...reproSnippetInclude,
+        assignees: {
+          include: {
+            user: {
+              select: { id: true, username: true, name: true, avatar: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
         comments: {
           include: {
             author: {
@@ -135,11 +241,12 @@ export const getBugById = asyncHandler(async (req: Request, res: Response) => {
           orderBy: { createdAt: 'desc' },
         },
         _count: {
-          select: { likes: true, comments: true, bookmarks: true, views: true },
+          select: { likes: true, comments: true, bookmarks: true, views: true, watchers: true },
         },
         ...(currentUserId ? {
             likes: { where: { userId: currentUserId }, select: { id: true } },
             bookmarks: { where: { userId: currentUserId }, select: { id: true } },
+            watchers: { where: { userId: currentUserId }, select: { id: true } },
         } : {}),
       },
     });
@@ -148,14 +255,41 @@ export const getBugById = asyncHandler(async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Bug not found' });
     }
 
-    if (bug.expiresAt < new Date()) {
-      return res.status(410).json({ error: 'Bug report has expired' });
+    // Duplicates redirect to the bug they were merged into. Temporary, so clients don't cache
+    // it in case the merge is corrected.
+    if (bug.mergedIntoId) {
+      return res.redirect(307, `${req.baseUrl}/${bug.mergedIntoId}`);
     }
 
     const bugWithInteractions = bug as BugFromList;
 
+    // The snippet may have been made private since it was linked
+    const reproSnippet = bug.reproSnippet && (isOpenToEveryone(bug.reproSnippet) || bug.reproSnippet.authorId === currentUserId)
+      ? bug.reproSnippet
+      : null;
+
+    // Other active reports of the same crash
+    const sameCrashCount = bug.errorFingerprint
+      ? await prisma.bug.count({
+          where: { errorFingerprint: bug.errorFingerprint, id: { not: bug.id }, expiresAt: { gt: new Date() } },
+        })
+      : 0;
+
     const formattedBug = {
         ...bug,
+        stackTrace: bug.errorType ? {
+          errorType: bug.errorType,
+          message: bug.errorMessage,
+          fingerprint: bug.errorFingerprint,
+          ...(bug.stackTrace as object),
+          sameCrashCount,
+        } : null,
+        reproSnippet,
+        assignees: bug.assignees.map(assignee => assignee.user),
+        isArchived: isBugArchived(bug),
+        isWatching: 'watchers' in bug ? bug.watchers.length > 0 : false,
+        watchersCount: bug._count.watchers,
+        watchers: undefined,
         isLiked: bugWithInteractions.likes ? bugWithInteractions.likes.length > 0 : false,
         isBookmarked: bugWithInteractions.bookmarks ? bugWithInteractions.bookmarks.length > 0 : false,
         likesCount: bug._count.likes,
@@ -171,17 +305,57 @@ export const getBugById = asyncHandler(async (req: Request, res: Response) => {
 
 // Create bug
 export const createBug = asyncHandler(async (req: Request, res: Response) => {
-    const validatedData = bugSchema.parse(req.body);
+    const { redactSecrets, lifetimeHours, ...validatedData } = bugSchema.parse(req.body);
     const userId = (req.user as any).id;
-    
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // Bugs expire in 24 hours
-    
+
+    // Bug reports are always public, so they must not leak credentials
+    const { content, expectedResult, actualResult, reproSteps } = validatedData;
+    const secretCheck = applySecretPolicy<string>(
+      {
+        content,
+        ...(expectedResult ? { expectedResult } : {}),
+        ...(actualResult ? { actualResult } : {}),
+        ...Object.fromEntries(reproSteps.map((step, index) => [`reproSteps[${index}]`, step])),
+      },
+      { isPublished: true, redact: redactSecrets }
+    );
+    if (!secretCheck.ok) {
+      return res.status(400).json(secretsErrorBody(secretCheck.details));
+    }
+
+    if (validatedData.reproSnippetId) {
+      const snippet = await prisma.snippet.findUnique({
+        where: { id: validatedData.reproSnippetId },
+        select: { visibility: true, status: true },
+      });
+      if (!snippet) {
+        return res.status(400).json({ error: 'Reproduction snippet not found' });
+      }
+      // Bug reports are public, so the snippet has to be readable by everyone too
+      if (!isOpenToEveryone(snippet)) {
+        return res.status(400).json({ error: 'Reproduction snippet must be public and published' });
+      }
+    }
+
+    const expiry = getNewBugExpiry(lifetimeHours);
+    if (!expiry.expiresAt) {
+      return res.status(400).json({ error: expiry.error });
+    }
+
+    const trace = parseStackTrace(secretCheck.fields.content);
     const bug = await prisma.bug.create({
       data: {
         ...validatedData,
+        content: secretCheck.fields.content,
+        ...getStackTraceFields(trace),
+        expectedResult: secretCheck.fields.expectedResult,
+        actualResult: secretCheck.fields.actualResult,
+        reproSteps: reproSteps.map((step, index) => secretCheck.fields[`reproSteps[${index}]`]),
         authorId: userId,
-        expiresAt,
+        expiresAt: expiry.expiresAt,
+        statusChanges: {
+          create: { toStatus: 'OPEN', actorId: userId },
+        },
       },
       include: {
         author: {
@@ -196,7 +370,10 @@ export const createBug = asyncHandler(async (req: Request, res: Response) => {
     // --- Real-time Feed Logic ---
     emitToFollowers(userId, 'new-bug', bug);
 
-    res.status(201).json(bug);
+    // Point the author at reports that may already cover this one, so they can merge it
+    const possibleDuplicates = await findDuplicateBugs(validatedData, bug.id, trace);
+
+    res.status(201).json({ ...bug, possibleDuplicates });
 });
 
 // Update bug status
@@ -213,18 +390,139 @@ export const updateBugStatus = asyncHandler(async (req: Request, res: Response)
       return res.status(404).json({ error: 'Bug not found' });
     }
 
-    if (bug.expiresAt < new Date()) {
+    if (isBugArchived(bug)) {
       return res.status(410).json({ error: 'Bug report has expired' });
     }
 
-    // Allow only the bug author to change the status
+    // Allow only the bug author and its assignees to change the status
+    if (!(await canChangeBugStatus(bug, currentUserId))) {
+      return res.status(403).json({ error: 'Access denied: Only the author or an assignee can change the status.' });
+    }
+
+    const updatedBug = await prisma.$transaction(async (tx) => {
+      if (status !== bug.status) {
+        await recordStatusChange(tx, { bugId, actorId: currentUserId, fromStatus: bug.status, toStatus: status });
+      }
+      return tx.bug.update({
+        where: { id: bugId },
+        data: {
+          status: status as BugStatusEnum,
+          // Someone is on it now, so it no longer needs escalating
+          ...(status !== bug.status ? { escalatedAt: null } : {}),
+          // Bugs being worked on stay active longer
+          ...(status === 'IN_PROGRESS' ? { expiresAt: getInProgressBugExpiry(bug.expiresAt) } : {}),
+        },
+        include: {
+          author: {
+            select: { id: true, username: true, name: true, avatar: true },
+          },
+          _count: {
+            select: { likes: true, comments: true, bookmarks: true },
+          },
+        },
+      });
+    });
+
+    // --- Real-time Notification Logic ---
+    // Notify the author (when an assignee made the change), watchers and other assignees
+    if (status !== bug.status) {
+      await notifyBugSubscribers(bug, currentUserId, { type: 'BUG_STATUS_UPDATE', includeAuthor: true });
+    }
+
+    res.json(updatedBug);
+});
+
+// Mark a comment as the bug's accepted answer, resolving the bug
+export const acceptAnswer = asyncHandler(async (req: Request, res: Response) => {
+    const { commentId } = acceptAnswerSchema.parse(req.body);
+    const bugId = req.params.id;
+    const currentUserId = (req.user as any).id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
     if (bug.authorId !== currentUserId) {
-      return res.status(403).json({ error: 'Access denied: Only the author can change the status.' });
+      return res.status(403).json({ error: 'Access denied: Only the author can accept an answer.' });
+    }
+
+    if (isBugArchived(bug)) {
+      return res.status(410).json({ error: 'Bug report has expired' });
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { id: true, bugId: true, authorId: true },
+    });
+
+    if (!comment || comment.bugId !== bugId) {
+      return res.status(404).json({ error: 'Comment not found on this bug' });
+    }
+
+    const updatedBug = await prisma.$transaction(async (tx) => {
+      if (bug.status !== 'RESOLVED') {
+        await recordStatusChange(tx, { bugId, actorId: currentUserId, fromStatus: bug.status, toStatus: 'RESOLVED' });
+      }
+      return tx.bug.update({
+        where: { id: bugId },
+        data: { acceptedAnswerId: comment.id, status: 'RESOLVED', escalatedAt: null },
+        include: {
+          author: {
+            select: { id: true, username: true, name: true, avatar: true },
+          },
+          ...acceptedAnswerInclude,
+          _count: {
+            select: { likes: true, comments: true, bookmarks: true },
+          },
+        },
+      });
+    });
+
+    if (bug.status !== 'RESOLVED') {
+      await notifyBugSubscribers(bug, currentUserId, { type: 'BUG_STATUS_UPDATE', includeAuthor: true });
+    }
+
+    if (bug.acceptedAnswerId !== comment.id) {
+      await notificationService.createNotification({
+        recipientId: comment.authorId,
+        senderId: currentUserId,
+        type: 'ANSWER_ACCEPTED',
+        bugId,
+        commentId: comment.id,
+      });
+    }
+
+    res.json(updatedBug);
+});
+
+// Unmark the bug's accepted answer. The status is left for the author to change.
+export const unacceptAnswer = asyncHandler(async (req: Request, res: Response) => {
+    const bugId = req.params.id;
+    const currentUserId = (req.user as any).id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    if (bug.authorId !== currentUserId) {
+      return res.status(403).json({ error: 'Access denied: Only the author can change the accepted answer.' });
+    }
+
+    if (isBugArchived(bug)) {
+      return res.status(410).json({ error: 'Bug report has expired' });
     }
 
     const updatedBug = await prisma.bug.update({
       where: { id: bugId },
-      data: { status: status as BugStatusEnum },
+      data: { acceptedAnswerId: null },
       include: {
         author: {
           select: { id: true, username: true, name: true, avatar: true },
@@ -235,19 +533,262 @@ export const updateBugStatus = asyncHandler(async (req: Request, res: Response)
       },
     });
 
-    // --- Real-time Notification Logic ---
-    // Notify the author that their bug status was updated.
-    // This is useful if, in the future, moderators can also change status.
-    // We check `bug.authorId !== currentUserId` to prevent self-notifications.
+    res.json(updatedBug);
+});
+
+// Get a bug's status timeline, oldest first
+export const getBugTimeline = asyncHandler(async (req: Request, res: Response) => {
+    const bugId = req.params.id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+      select: { id: true },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    const timeline = await prisma.bugStatusChange.findMany({
+      where: { bugId },
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        createdAt: true,
+        actor: {
+          select: { id: true, username: true, name: true, avatar: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ timeline });
+});
+
+// Assign a user to help with the bug (author only)
+export const addBugAssignee = asyncHandler(async (req: Request, res: Response) => {
+    const { username } = assigneeSchema.parse(req.body);
+    const bugId = req.params.id;
+    const currentUserId = (req.user as any).id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    if (bug.authorId !== currentUserId) {
+      return res.status(403).json({ error: 'Access denied: Only the author can manage assignees.' });
+    }
+
+    if (isBugArchived(bug)) {
+      return res.status(410).json({ error: 'Bug report has expired' });
+    }
+
+    const assignee = await prisma.user.findUnique({
+      where: { username },
+      select: { id: true, username: true, name: true, avatar: true },
+    });
+
+    if (!assignee) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (assignee.id === bug.authorId) {
+      return res.status(400).json({ error: 'The author can already change the status of this bug' });
+    }
+
+    const existing = await prisma.bugAssignee.findUnique({
+      where: { bugId_userId: { bugId, userId: assignee.id } },
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: 'User is already assigned to this bug' });
+    }
+
+    await prisma.bugAssignee.create({ data: { bugId, userId: assignee.id } });
+
+    await notificationService.createNotification({
+      recipientId: assignee.id,
+      senderId: currentUserId,
+      type: 'BUG_ASSIGNED',
+      bugId,
+    });
+
+    res.status(201).json(assignee);
+});
+
+// Unassign a user from the bug (author, or the assignee themselves)
+export const removeBugAssignee = asyncHandler(async (req: Request, res: Response) => {
+    const { id: bugId, userId: assigneeId } = req.params;
+    const currentUserId = (req.user as any).id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    if (bug.authorId !== currentUserId && assigneeId !== currentUserId) {
+      return res.status(403).json({ error: 'Access denied: Only the author can manage assignees.' });
+    }
+
+    const { count } = await prisma.bugAssignee.deleteMany({ where: { bugId, userId: assigneeId } });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Assignee not found' });
+    }
+
+    res.json({ message: 'Assignee removed successfully' });
+});
+
+// Watch a bug to be notified of status changes and new comments
+export const watchBug = asyncHandler(async (req: Request, res: Response) => {
+    const bugId = req.params.id;
+    const userId = (req.user as any).id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    if (isBugArchived(bug)) {
+      return res.status(410).json({ error: 'Bug report has expired' });
+    }
+
+    await prisma.bugWatcher.upsert({
+      where: { bugId_userId: { bugId, userId } },
+      update: {},
+      create: { bugId, userId },
+    });
+
+    res.json({ message: 'Watching bug', isWatching: true });
+});
+
+// Stop watching a bug
+export const unwatchBug = asyncHandler(async (req: Request, res: Response) => {
+    const bugId = req.params.id;
+    const userId = (req.user as any).id;
+
+    await prisma.bugWatcher.deleteMany({ where: { bugId, userId } });
+
+    res.json({ message: 'Stopped watching bug', isWatching: false });
+});
+
+// Suggest active bugs that look like the report being written
+export const checkDuplicateBugs = asyncHandler(async (req: Request, res: Response) => {
+    const report = duplicateCheckSchema.parse(req.body);
+
+    const duplicates = await findDuplicateBugs(report);
+
+    res.json({ duplicates });
+});
+
+// Merge a duplicate bug into the canonical one (the duplicate's author or an admin)
+export const mergeBug = asyncHandler(async (req: Request, res: Response) => {
+    const { targetId } = mergeBugSchema.parse(req.body);
+    const bugId = req.params.id;
+    const currentUser = req.user as any;
+
+    if (targetId === bugId) {
+      return res.status(400).json({ error: 'A bug cannot be merged into itself' });
+    }
+
+    const [bug, target] = await Promise.all([
+      prisma.bug.findUnique({ where: { id: bugId } }),
+      prisma.bug.findUnique({ where: { id: targetId } }),
+    ]);
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    if (bug.authorId !== currentUser.id && currentUser.role !== 'ADMIN') {
+      return res.status(403).json({ error: 'Access denied: Only the author or an admin can merge this bug.' });
+    }
+
+    if (bug.mergedIntoId) {
+      return res.status(400).json({ error: 'Bug has already been merged' });
+    }
+
+    if (!target) {
+      return res.status(404).json({ error: 'Target bug not found' });
+    }
+
+    if (target.mergedIntoId) {
+      return res.status(400).json({ error: 'Target bug has itself been merged into another bug' });
+    }
+
+    if (isBugArchived(target)) {
+      return res.status(400).json({ error: 'Cannot merge into an archived bug' });
+    }
+
+    let moved;
+    try {
+      moved = await mergeDuplicateBug(bug, targetId, currentUser.id);
+    } catch (error) {
+      // Another merge of one of these bugs finished first
+      if (error instanceof BugMergeError) {
+        return res.status(409).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    res.json({ message: 'Bug merged successfully', mergedInto: targetId, moved });
+});
+
+// Get the lifetime bounds new bugs and extensions must respect
+export const getBugLifetime = asyncHandler(async (req: Request, res: Response) => {
+    res.json(getBugLifetimeBounds());
+});
+
+// Extend an active bug's lifetime
+export const extendBug = asyncHandler(async (req: Request, res: Response) => {
+    const { hours } = extendBugSchema.parse(req.body);
+    const bugId = req.params.id;
+    const currentUserId = (req.user as any).id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
     if (bug.authorId !== currentUserId) {
-        await notificationService.createNotification({
-            recipientId: bug.authorId,
-            senderId: currentUserId,
-            type: 'BUG_STATUS_UPDATE',
-            bugId: bug.id,
-        });
+      return res.status(403).json({ error: 'Access denied: Only the author can extend the bug report.' });
     }
 
+    if (isBugArchived(bug)) {
+      return res.status(410).json({ error: 'Bug report has expired' });
+    }
+
+    const expiry = getExtendedBugExpiry(bug.expiresAt, hours);
+    if (!expiry.expiresAt) {
+      return res.status(400).json({ error: expiry.error });
+    }
+
+    const updatedBug = await prisma.bug.update({
+      where: { id: bugId },
+      data: { expiresAt: expiry.expiresAt },
+      include: {
+        author: {
+          select: { id: true, username: true, name: true, avatar: true },
+        },
+        _count: {
+          select: { likes: true, comments: true, bookmarks: true },
+        },
+      },
+    });
+
     res.json(updatedBug);
 });
 
@@ -279,26 +820,43 @@ export const deleteBug = asyncHandler(async (req: Request, res: Response) => {
     res.json({ message: 'Bug deleted successfully' });
 });
 
-// Add bug view
+// Add bug view (signed in or anonymous)
 export const addBugView = asyncHandler(async (req: Request, res: Response) => {
     const { bugId } = req.params;
-    const userId = (req.user as any).id;
+    const userId = (req.user as any)?.id;
 
-    // Use upsert for a more concise operation
-    await prisma.bugView.upsert({
-        where: {
-            bugId_userId: { bugId, userId },
-        },
-        update: {}, // Do nothing if it exists
-        create: { bugId, userId },
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+      select: { id: true },
     });
 
-    res.status(200).json({ message: 'Bug view recorded' });
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    // Anonymous viewers are told apart by address and browser, without creating a session for them
+    const counted = await recordBugView(bugId, { userId, ip: req.ip, userAgent: req.get('user-agent') });
+
+    res.status(200).json({ message: 'Bug view recorded', counted });
 });
 
-// Get bug views
+// Get the users who viewed a bug (author only)
 export const getBugViews = asyncHandler(async (req: Request, res: Response) => {
     const { bugId } = req.params;
+    const userId = (req.user as any).id;
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+      select: { authorId: true },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    if (bug.authorId !== userId) {
+      return res.status(403).json({ error: 'Access denied: Only the author can see who viewed this bug.' });
+    }
 
     const views = await prisma.bugView.findMany({
       where: { bugId },
@@ -307,7 +865,32 @@ export const getBugViews = asyncHandler(async (req: Request, res: Response) => {
           select: { id: true, username: true, avatar: true },
         },
       },
+      orderBy: { createdAt: 'desc' },
     });
 
     res.json(views);
 });
+
+// Get view analytics for a bug: totals and daily views over the last `days` days (author only)
+export const getBugViewSummary = asyncHandler(async (req: Request, res: Response) => {
+    const { bugId } = req.params;
+    const userId = (req.user as any).id;
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+
+    const bug = await prisma.bug.findUnique({
+      where: { id: bugId },
+      select: { authorId: true },
+    });
+
+    if (!bug) {
+      return res.status(404).json({ error: 'Bug not found' });
+    }
+
+    if (bug.authorId !== userId) {
+      return res.status(403).json({ error: 'Access denied: Only the author can see view analytics.' });
+    }
+
+    const summary = await summarizeBugViews(bugId, days);
+
+    res.json({ ...summary, days });
+});
@@ -0,0 +1,506 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/db';
+import { z } from 'zod';
+import { asyncHandler } from '../utils/asyncHandler';
+import * as notificationService from '../services/notificationService';
+import { canViewContent, isOpenToEveryone } from '../services/shareService';
+
+// Zod schema for creating and updating a collection
+const collectionSchema = z.object({
+  title: z.string().min(1, "Title is required").max(100),
+  description: z.string().max(500).optional(),
+  visibility: z.enum(['PUBLIC', 'UNLISTED', 'PRIVATE']).default('PUBLIC'),
+});
+
+// Zod schema for adding an item to a collection
+const collectionItemSchema = z.object({
+  snippetId: z.string().optional(),
+  docId: z.string().optional(),
+  bugId: z.string().optional(),
+  note: z.string().max(500).optional(),
+}).refine(
+  (data) => {
+    const targets = [data.snippetId, data.docId, data.bugId].filter(Boolean);
+    return targets.length === 1;
+  },
+  {
+    message: 'Collection item must target exactly one content type',
+  }
+);
+
+// Zod schema for reordering: the full list of item IDs in their new order
+const reorderSchema = z.object({
+  itemIds: z.array(z.string()).min(1),
+});
+
+const authorSelect = { id: true, username: true, name: true, avatar: true };
+
+const sendValidationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({
+    error: 'Invalid data',
+    details: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message,
+    })),
+  });
+
+// Adapts a collection to the shape the visibility check expects
+const toShareable = (collection: { id: string; ownerId: string; visibility: 'PUBLIC' | 'UNLISTED' | 'PRIVATE' }) => ({
+  id: collection.id,
+  authorId: collection.ownerId,
+  visibility: collection.visibility,
+  status: null,
+});
+
+
+/**
+ * @desc    Get all public collections with pagination and search
+ * @route   GET /api/collections
+ * @access  Public
+ */
+export const getCollections = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string;
+    const skip = (page - 1) * limit;
+
+    const where: any = { visibility: 'PUBLIC' };
+    if (search) {
+      where.OR = [
+        { title: { contains: search, mode: 'insensitive' } },
+        { description: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [collections, total] = await Promise.all([
+      prisma.collection.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { updatedAt: 'desc' },
+        include: {
+          owner: { select: authorSelect },
+          _count: { select: { items: true, followers: true } },
+        },
+      }),
+      prisma.collection.count({ where }),
+    ]);
+
+    res.json({
+      collections: collections.map(collection => ({
+        ...collection,
+        itemsCount: collection._count.items,
+        followersCount: collection._count.followers,
+      })),
+      total,
+      pages: Math.ceil(total / limit),
+      currentPage: page,
+      hasMore: skip + limit < total,
+    });
+});
+
+/**
+ * @desc    Get the collections owned by a user
+ * @route   GET /api/collections/user/:username
+ * @access  Public (unlisted and private collections only for the owner)
+ */
+export const getUserCollections = asyncHandler(async (req: Request, res: Response) => {
+    const { username } = req.params;
+    const currentUserId = (req.user as any)?.id;
+
+    const user = await prisma.user.findUnique({ where: { username }, select: { id: true } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const collections = await prisma.collection.findMany({
+      where: {
+        ownerId: user.id,
+        ...(currentUserId === user.id ? {} : { visibility: 'PUBLIC' }),
+      },
+      orderBy: { updatedAt: 'desc' },
+      include: {
+        _count: { select: { items: true, followers: true } },
+      },
+    });
+
+    res.json({
+      collections: collections.map(collection => ({
+        ...collection,
+        itemsCount: collection._count.items,
+        followersCount: collection._count.followers,
+      })),
+    });
+});
+
+/**
+ * @desc    Get a collection with its ordered items
+ * @route   GET /api/collections/:id
+ * @access  Public (with checks for private collections)
+ */
+export const getCollectionById = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const currentUserId = (req.user as any)?.id;
+
+    const collection = await prisma.collection.findUnique({
+      where: { id },
+      include: {
+        owner: { select: authorSelect },
+        items: {
+          orderBy: { position: 'asc' },
+          include: {
+            snippet: {
+              select: {
+                id: true, title: true, description: true, language: true, tags: true,
+                visibility: true, status: true, authorId: true, createdAt: true,
+                author: { select: authorSelect },
+              },
+            },
+            doc: {
+              select: {
+                id: true, title: true, description: true, coverImage: true, tags: true,
+                visibility: true, status: true, authorId: true, createdAt: true,
+                author: { select: authorSelect },
+              },
+            },
+            bug: {
+              select: {
+                id: true, title: true, description: true, severity: true, status: true, tags: true,
+                expiresAt: true, createdAt: true,
+                author: { select: authorSelect },
+              },
+            },
+          },
+        },
+        _count: { select: { items: true, followers: true } },
+      },
+    });
+
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (!(await canViewContent('collection', toShareable(collection), currentUserId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied to this collection' });
+    }
+
+    // Hide items the viewer couldn't open on their own (other people's private or unpublished content, expired bugs)
+    const now = new Date();
+    const items = collection.items.filter(item => {
+      if (item.snippet) return isOpenToEveryone(item.snippet) || item.snippet.authorId === currentUserId;
+      if (item.doc) return isOpenToEveryone(item.doc) || item.doc.authorId === currentUserId;
+      if (item.bug) return item.bug.expiresAt > now;
+      return false;
+    });
+
+    const isFollowing = currentUserId
+      ? !!(await prisma.collectionFollow.findUnique({
+          where: { collectionId_userId: { collectionId: id, userId: currentUserId } },
+        }))
+      : false;
+
+    const { _count, ...rest } = collection;
+    res.json({
+      ...rest,
+      items: items.map(item => ({
+        ...item,
+        type: item.snippetId ? 'snippet' : item.docId ? 'doc' : 'bug',
+      })),
+      // Only the items this viewer can see
+      itemsCount: items.length,
+      followersCount: _count.followers,
+      isFollowing,
+    });
+});
+
+/**
+ * @desc    Create a new collection
+ * @route   POST /api/collections
+ * @access  Private
+ */
+export const createCollection = asyncHandler(async (req: Request, res: Response) => {
+    const parsed = collectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const userId = (req.user as any).id;
+
+    const collection = await prisma.collection.create({
+      data: {
+        ...parsed.data,
+        ownerId: userId,
+      },
+      include: {
+        owner: { select: authorSelect },
+      },
+    });
+
+    res.status(201).json({ ...collection, items: [], itemsCount: 0, followersCount: 0 });
+});
+
+/**
+ * @desc    Update a collection's title, description or visibility
+ * @route   PUT /api/collections/:id
+ * @access  Private (owner only)
+ */
+export const updateCollection = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const parsed = collectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const collection = await prisma.collection.findUnique({ where: { id } });
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (collection.ownerId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to update this collection' });
+    }
+
+    const updatedCollection = await prisma.collection.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    res.json(updatedCollection);
+});
+
+/**
+ * @desc    Delete a collection (the collected content itself is untouched)
+ * @route   DELETE /api/collections/:id
+ * @access  Private (owner only)
+ */
+export const deleteCollection = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const collection = await prisma.collection.findUnique({ where: { id } });
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (collection.ownerId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to delete this collection' });
+    }
+
+    await prisma.collection.delete({ where: { id } });
+
+    res.json({ message: 'Collection deleted successfully' });
+});
+
+/**
+ * @desc    Add a snippet, doc or bug to the end of a collection and notify its followers
+ * @route   POST /api/collections/:id/items
+ * @access  Private (owner only)
+ */
+export const addCollectionItem = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const parsed = collectionItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { note, ...target } = parsed.data;
+
+    const collection = await prisma.collection.findUnique({ where: { id } });
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (collection.ownerId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to modify this collection' });
+    }
+
+    // Verify the target content exists and can be collected by this user. The owner may collect
+    // their own private or unpublished content, which followers mustn't hear about.
+    let isTargetOpen = true;
+    if (target.snippetId) {
+      const snippet = await prisma.snippet.findUnique({ where: { id: target.snippetId } });
+      if (!snippet) {
+        return res.status(404).json({ error: 'Snippet not found' });
+      }
+      if (!isOpenToEveryone(snippet) && snippet.authorId !== userId) {
+        return res.status(403).json({ error: 'Cannot collect a private or unpublished snippet' });
+      }
+      isTargetOpen = isOpenToEveryone(snippet);
+    }
+
+    if (target.docId) {
+      const doc = await prisma.doc.findUnique({ where: { id: target.docId } });
+      if (!doc) {
+        return res.status(404).json({ error: 'Doc not found' });
+      }
+      if (!isOpenToEveryone(doc) && doc.authorId !== userId) {
+        return res.status(403).json({ error: 'Cannot collect a private or unpublished doc' });
+      }
+      isTargetOpen = isOpenToEveryone(doc);
+    }
+
+    if (target.bugId) {
+      const bug = await prisma.bug.findUnique({ where: { id: target.bugId } });
+      if (!bug) {
+        return res.status(404).json({ error: 'Bug not found' });
+      }
+      if (bug.expiresAt < new Date()) {
+        return res.status(410).json({ error: 'Bug report has expired' });
+      }
+    }
+
+    const existingItem = await prisma.collectionItem.findFirst({
+      where: { collectionId: id, ...target },
+    });
+    if (existingItem) {
+      return res.status(409).json({ error: 'Item is already in this collection' });
+    }
+
+    const last = await prisma.collectionItem.findFirst({
+      where: { collectionId: id },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    const [item] = await prisma.$transaction([
+      prisma.collectionItem.create({
+        data: {
+          collectionId: id,
+          position: (last?.position ?? -1) + 1,
+          note,
+          ...target,
+        },
+      }),
+      // Touch the collection so lists sorted by activity pick it up
+      prisma.collection.update({ where: { id }, data: { updatedAt: new Date() } }),
+    ]);
+
+    // --- Real-time Notification Logic ---
+    // Let followers know about the new item, unless the collection has since been made private
+    // or they couldn't open the item
+    if (collection.visibility !== 'PRIVATE' && isTargetOpen) {
+      const followers = await prisma.collectionFollow.findMany({
+        where: { collectionId: id },
+        select: { userId: true },
+      });
+      await Promise.all(followers.map(follower =>
+        notificationService.createNotification({
+          recipientId: follower.userId,
+          senderId: userId,
+          type: 'COLLECTION_ITEM_ADDED',
+          collectionId: id,
+          ...target,
+        })
+      ));
+    }
+
+    res.status(201).json(item);
+});
+
+/**
+ * @desc    Remove an item from a collection
+ * @route   DELETE /api/collections/:id/items/:itemId
+ * @access  Private (owner only)
+ */
+export const removeCollectionItem = asyncHandler(async (req: Request, res: Response) => {
+    const { id, itemId } = req.params;
+    const userId = (req.user as any).id;
+
+    const collection = await prisma.collection.findUnique({ where: { id } });
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (collection.ownerId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to modify this collection' });
+    }
+
+    const item = await prisma.collectionItem.findFirst({ where: { id: itemId, collectionId: id } });
+    if (!item) {
+      return res.status(404).json({ error: 'Collection item not found' });
+    }
+
+    await prisma.collectionItem.delete({ where: { id: itemId } });
+
+    res.json({ message: 'Item removed from collection' });
+});
+
+/**
+ * @desc    Reorder a collection's items
+ * @route   PUT /api/collections/:id/items/order
+ * @access  Private (owner only)
+ */
+export const reorderCollectionItems = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const parsed = reorderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { itemIds } = parsed.data;
+
+    const collection = await prisma.collection.findUnique({
+      where: { id },
+      include: { items: { select: { id: true } } },
+    });
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (collection.ownerId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to modify this collection' });
+    }
+
+    // The new order must mention every item exactly once
+    const currentIds = new Set(collection.items.map(item => item.id));
+    const requestedIds = new Set(itemIds);
+    if (requestedIds.size !== itemIds.length || requestedIds.size !== currentIds.size || itemIds.some(itemId => !currentIds.has(itemId))) {
+      return res.status(400).json({ error: 'itemIds must list every item in the collection exactly once' });
+    }
+
+    await prisma.$transaction(
+      itemIds.map((itemId, position) =>
+        prisma.collectionItem.update({ where: { id: itemId }, data: { position } })
+      )
+    );
+
+    res.json({ message: 'Collection reordered successfully', itemIds });
+});
+
+/**
+ * @desc    Follow or unfollow a collection to be notified when items are added
+ * @route   POST /api/collections/:id/follow
+ * @access  Private
+ */
+export const toggleCollectionFollow = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const collection = await prisma.collection.findUnique({ where: { id } });
+    if (!collection) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    if (collection.ownerId === userId) {
+      return res.status(400).json({ error: 'Cannot follow your own collection' });
+    }
+
+    if (!(await canViewContent('collection', toShareable(collection), userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied to this collection' });
+    }
+
+    const existingFollow = await prisma.collectionFollow.findUnique({
+      where: { collectionId_userId: { collectionId: id, userId } },
+    });
+
+    if (existingFollow) {
+      await prisma.collectionFollow.delete({ where: { id: existingFollow.id } });
+      return res.json({ following: false, message: 'Unfollowed collection' });
+    }
+
+    await prisma.collectionFollow.create({ data: { collectionId: id, userId } });
+    res.json({ following: true, message: 'Following collection' });
+});
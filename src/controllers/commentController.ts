@@ -3,6 +3,9 @@ import { prisma } from '../config/db';
 import { z } from 'zod';
 import * as notificationService from '../services/notificationService';
 import { getIO } from '../socket';
+import { isOpenToEveryone } from '../services/shareService';
+import { notifyBugSubscribers } from '../services/bugTriageService';
+import { commentAnchorSchema, groupCommentsByAnchor, resolveDocAnchor, resolveSnippetAnchor } from '../services/commentAnchorService';
 
 const commentSchema = z.object({
   content: z.string().min(1).max(1000),
@@ -10,6 +13,7 @@ const commentSchema = z.object({
   docId: z.string().optional(),
   bugId: z.string().optional(),
   parentId: z.string().optional(), // For replies
+  anchor: commentAnchorSchema.optional(), // A line range of a snippet or a heading/paragraph of a doc
 }).refine(
   (data) => {
     const targets = [data.snippetId, data.docId, data.bugId].filter(Boolean);
@@ -24,22 +28,38 @@ const commentSchema = z.object({
 // Create comment
 export const createComment = async (req: Request, res: Response) => {
   try {
-    const validatedData = commentSchema.parse(req.body);
+    const { anchor, ...validatedData } = commentSchema.parse(req.body);
     const senderId = (req.user as any).id;
     let contentAuthorId: string | undefined;
     let contentId: string | undefined;
+    let anchorFields = {};
+
+    if (anchor && validatedData.parentId) {
+      return res.status(400).json({ error: 'Replies share the anchor of the comment they reply to' });
+    }
+    if (anchor && validatedData.bugId) {
+      return res.status(400).json({ error: 'Bug comments cannot be anchored' });
+    }
     
     // Verify the target content exists
     if (validatedData.snippetId) {
       contentId = validatedData.snippetId;
       const snippet = await prisma.snippet.findUnique({
         where: { id: contentId },
+        include: { files: { orderBy: { position: 'asc' }, select: { filename: true, content: true } } },
       });
       if (!snippet) {
         return res.status(404).json({ error: 'Snippet not found' });
       }
-      if (!snippet.isPublic) {
-        return res.status(403).json({ error: 'Cannot comment on private snippet' });
+      if (!isOpenToEveryone(snippet)) {
+        return res.status(403).json({ error: 'Cannot comment on private or unpublished snippet' });
+      }
+      if (anchor) {
+        const resolved = resolveSnippetAnchor(snippet.files, anchor);
+        if (!resolved.fields) {
+          return res.status(400).json({ error: resolved.error });
+        }
+        anchorFields = resolved.fields;
       }
       contentAuthorId = snippet.authorId;
     }
@@ -52,8 +72,15 @@ export const createComment = async (req: Request, res: Response) => {
       if (!doc) {
         return res.status(404).json({ error: 'Doc not found' });
       }
-      if (!doc.isPublic) {
-        return res.status(403).json({ error: 'Cannot comment on private doc' });
+      if (!isOpenToEveryone(doc)) {
+        return res.status(403).json({ error: 'Cannot comment on private or unpublished doc' });
+      }
+      if (anchor) {
+        const resolved = resolveDocAnchor(doc.content, anchor);
+        if (!resolved.fields) {
+          return res.status(400).json({ error: resolved.error });
+        }
+        anchorFields = resolved.fields;
       }
       contentAuthorId = doc.authorId;
     }
@@ -75,6 +102,7 @@ export const createComment = async (req: Request, res: Response) => {
     const comment = await prisma.comment.create({
       data: {
         ...validatedData,
+        ...anchorFields,
         authorId: senderId,
       },
       include: {
@@ -89,6 +117,14 @@ export const createComment = async (req: Request, res: Response) => {
       },
     });
 
+    // A bug is escalated for going unanswered, which it no longer is
+    if (validatedData.bugId) {
+      await prisma.bug.updateMany({
+        where: { id: validatedData.bugId, escalatedAt: { not: null } },
+        data: { escalatedAt: null },
+      });
+    }
+
     // --- Real-time Logic ---
     // 1. Create notification for the content author
     if (contentAuthorId && contentAuthorId !== senderId) {
@@ -97,11 +133,22 @@ export const createComment = async (req: Request, res: Response) => {
             senderId: senderId,
             type: validatedData.parentId ? 'REPLY' : 'COMMENT',
             commentId: comment.id,
-            ...validatedData
+            snippetId: validatedData.snippetId,
+            docId: validatedData.docId,
+            bugId: validatedData.bugId,
         });
     }
 
-    // 2. Broadcast the new comment to all clients in the content's room
+    // 2. Notify the bug's watchers and assignees (the author was notified above)
+    if (validatedData.bugId) {
+        await notifyBugSubscribers(
+            { id: validatedData.bugId, authorId: contentAuthorId! },
+            senderId,
+            { type: validatedData.parentId ? 'REPLY' : 'COMMENT', commentId: comment.id, includeAuthor: false }
+        );
+    }
+
+    // 3. Broadcast the new comment to all clients in the content's room
     if (contentId) {
         const io = getIO();
         io.to(contentId).emit('new_comment', comment);
@@ -190,12 +237,15 @@ export const deleteComment = async (req: Request, res: Response) => {
   }
 };
 
+// Each top-level comment comes with all its replies, so pages are kept small
+const MAX_COMMENTS_PER_PAGE = 100;
+
 // Get comments for content
 export const getComments = async (req: Request, res: Response) => {
   try {
-    const { snippetId, docId, bugId, page = '1', limit = '20' } = req.query;
+    const { snippetId, docId, bugId, groupBy, page = '1', limit = '20' } = req.query;
     const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
+    const limitNum = Math.min(parseInt(limit as string), MAX_COMMENTS_PER_PAGE);
     const skip = (pageNum - 1) * limitNum;
 
     const where: any = { parentId: null }; // Fetch only top-level comments
@@ -208,12 +258,16 @@ export const getComments = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Content ID is required' });
     }
 
-    const [comments, total] = await Promise.all([
-      prisma.comment.findMany({
-        where,
-        skip,
-        take: limitNum,
-        orderBy: { createdAt: 'desc' },
+    const include = {
+      author: {
+        select: {
+          id: true,
+          username: true,
+          name: true,
+          avatar: true,
+        },
+      },
+      replies: { // Include replies
         include: {
           author: {
             select: {
@@ -223,20 +277,46 @@ export const getComments = async (req: Request, res: Response) => {
               avatar: true,
             },
           },
-          replies: { // Include replies
-            include: {
-              author: {
-                select: {
-                  id: true,
-                  username: true,
-                  name: true,
-                  avatar: true,
-                },
-              },
-            },
-            orderBy: { createdAt: 'asc' },
-          },
         },
+        orderBy: { createdAt: 'asc' as const },
+      },
+    };
+
+    // Review threads: a page of top-level comments in anchor order, grouped by the lines or
+    // section they point at (a group can continue on the next page)
+    if (groupBy === 'anchor') {
+      const [comments, total] = await Promise.all([
+        prisma.comment.findMany({
+          where,
+          skip,
+          take: limitNum,
+          orderBy: [
+            { anchorOutdated: 'asc' },
+            { anchorFile: { sort: 'asc', nulls: 'first' } },
+            { anchorStartLine: { sort: 'asc', nulls: 'first' } },
+            { createdAt: 'asc' },
+            { id: 'asc' },
+          ],
+          include,
+        }),
+        prisma.comment.count({ where }),
+      ]);
+
+      return res.json({
+        groups: groupCommentsByAnchor(comments),
+        total,
+        pages: Math.ceil(total / limitNum),
+        currentPage: pageNum,
+      });
+    }
+
+    const [comments, total] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        include,
       }),
       prisma.comment.count({ where }),
     ]);
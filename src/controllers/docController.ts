@@ -1,8 +1,18 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import { prisma } from '../config/db';
 import { asyncHandler } from '../utils/asyncHandler';
 import { z } from 'zod';
-import { emitToFollowers } from '../socket';
+import { getDocHtml, invalidateRender } from '../services/renderService';
+import { canViewContent, resolveVisibility } from '../services/shareService';
+import { applySecretPolicy, secretsErrorBody } from '../services/secretScanService';
+import { normalizeTags } from '../utils/tags';
+import { getNextSeriesPosition, getSeriesNavigation, notifyNewChapter } from '../services/docSeriesService';
+import { publishStateFields, resolvePublishState, isNewlyPublished, announceDoc } from '../services/publishingService';
+import { getDocOutlineFields } from '../services/docOutlineService';
+import { indexDocAnchors, remapDocAnchors } from '../services/commentAnchorService';
+import { canEditDoc, closeCollabSession, isDocCoAuthor, recheckCollabAccess, writeDocContent } from '../services/docCollabService';
+import { exportDocHtml, exportDocMarkdown, getExportFilename } from '../services/docExportService';
+import { FrontMatter, FrontMatterError, parseFrontMatter } from '../utils/frontMatter';
 import { Doc, Like, Bookmark } from '@prisma/client';
 
 // --- Type Definitions for Doc Controller ---
@@ -35,11 +45,38 @@ type DocFromList = Doc & ContentCounts & Partial<UserInteractions> & {
   author: AuthorInfo;
 };
 
+// Columns for doc list cards: everything but the full content and table of contents
+const docListFields = {
+  id: true,
+  title: true,
+  description: true,
+  coverImage: true,
+  tags: true,
+  visibility: true,
+  status: true,
+  publishAt: true,
+  publishedAt: true,
+  wordCount: true,
+  readingTime: true,
+  createdAt: true,
+  updatedAt: true,
+  authorId: true,
+  seriesId: true,
+  seriesPosition: true,
+};
+
 // Zod schema for validating doc creation and updates
 const docSchema = z.object({
   title: z.string().min(1, "Title is required").max(255),
+  description: z.string().max(500).nullable().optional(),
   content: z.string().min(1, "Content cannot be empty"),
-  isPublic: z.boolean().default(true),
+  coverImage: z.string().url("Cover image must be a URL").max(2048).nullable().optional(),
+  tags: z.array(z.string()).default([]),
+  seriesId: z.string().nullable().optional(), // Adds the doc to one of your series as its newest chapter; null removes it
+  visibility: z.enum(['PUBLIC', 'UNLISTED', 'PRIVATE']).optional(),
+  isPublic: z.boolean().optional(), // Legacy flag, used when `visibility` is omitted
+  redactSecrets: z.boolean().optional(), // Replace detected secrets instead of rejecting the doc
+  ...publishStateFields,
 });
 
 
@@ -51,18 +88,64 @@ const docSchema = z.object({
 export const getAllDocs = asyncHandler(async (req: Request, res: Response) => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string;
+    const tags = req.query.tags as string;
+    const sortBy = req.query.sort as string || 'recent';
     const skip = (page - 1) * limit;
     const currentUserId = (req.user as any)?.id;
 
-    const where = { isPublic: true };
+    // Unlisted docs are reachable by direct link only; drafts and scheduled docs aren't listed
+    const where: any = { visibility: 'PUBLIC', status: 'PUBLISHED' };
+
+    // Search functionality
+    if (search) {
+        where.OR = [
+            { title: { contains: search, mode: 'insensitive' } },
+            { description: { contains: search, mode: 'insensitive' } },
+            { content: { contains: search, mode: 'insensitive' } },
+        ];
+    }
+
+    // Filter by tags (stored normalized, so match case-insensitively)
+    if (tags) {
+        const tagArray = normalizeTags(tags.split(','));
+        if (tagArray.length > 0) {
+            where.tags = { hasSome: tagArray };
+        }
+    }
+
+    // Sorting options
+    let orderBy: any;
+    switch (sortBy) {
+        case 'popular':
+            orderBy = [
+                { likes: { _count: 'desc' } },
+                { createdAt: 'desc' }
+            ];
+            break;
+        case 'liked':
+            orderBy = { likes: { _count: 'desc' } };
+            break;
+        case 'commented':
+            orderBy = [
+                { comments: { _count: 'desc' } },
+                { createdAt: 'desc' }
+            ];
+            break;
+        case 'recent':
+        default:
+            orderBy = { createdAt: 'desc' };
+            break;
+    }
 
     const [docs, total] = await Promise.all([
         prisma.doc.findMany({
             where,
             skip,
             take: limit,
-            orderBy: { createdAt: 'desc' },
-            include: {
+            orderBy,
+            select: {
+                ...docListFields,
                 author: {
                     select: {
                         id: true,
@@ -111,7 +194,7 @@ export const getAllDocs = asyncHandler(async (req: Request, res: Response) => {
 
 
 /**
- * @desc    Get a single doc by its ID
+ * @desc    Get a single doc by its ID (pass ?format=html for sanitized rendered HTML)
  * @route   GET /api/docs/:id
  * @access  Public (with checks for private docs)
  */
@@ -128,6 +211,10 @@ export const getDocById = asyncHandler(async (req: Request, res: Response) => {
             _count: {
                 select: { likes: true, comments: true, bookmarks: true },
             },
+            coAuthors: {
+                orderBy: { createdAt: 'asc' },
+                select: { user: { select: { id: true, username: true, name: true, avatar: true } } },
+            },
             ...(currentUserId ? {
                 likes: { where: { userId: currentUserId }, select: { id: true } },
                 bookmarks: { where: { userId: currentUserId }, select: { id: true } },
@@ -139,11 +226,24 @@ export const getDocById = asyncHandler(async (req: Request, res: Response) => {
         return res.status(404).json({ message: 'Document not found' });
     }
 
-    // If the doc is private, only the author can see it
-    if (!doc.isPublic && doc.authorId !== currentUserId) {
+    const coAuthors = doc.coAuthors.map(coAuthor => coAuthor.user);
+    const canEdit = doc.authorId === currentUserId || coAuthors.some(coAuthor => coAuthor.id === currentUserId);
+
+    // If the doc is private, only the author, its co-authors (or a share-link holder) can see it
+    if (!canEdit && !(await canViewContent('doc', doc, currentUserId, req.query.token))) {
         return res.status(403).json({ message: 'Access denied to this document' });
     }
 
+    // Docs saved before outlines were stored get theirs on first read; updatedAt is kept
+    // so the edit history and render cache aren't affected
+    if (doc.toc === null) {
+        Object.assign(doc, await prisma.doc.update({
+            where: { id },
+            data: { ...getDocOutlineFields(doc.content), updatedAt: doc.updatedAt },
+            select: { toc: true, wordCount: true, readingTime: true },
+        }));
+    }
+
     const docWithInteractions = doc as DocFromList;
 
     const formattedDoc = {
@@ -153,6 +253,11 @@ export const getDocById = asyncHandler(async (req: Request, res: Response) => {
         likesCount: doc._count.likes,
         commentsCount: doc._count.comments,
         bookmarksCount: doc._count.bookmarks,
+        coAuthors,
+        canEdit,
+        ...(req.query.format === 'html' ? { html: getDocHtml(doc) } : {}),
+        // Previous/next chapters and reading progress when the doc is part of a series
+        series: doc.seriesId ? await getSeriesNavigation(doc.seriesId, doc.id, currentUserId) : null,
         likes: undefined,
         bookmarks: undefined,
     };
@@ -167,13 +272,45 @@ export const getDocById = asyncHandler(async (req: Request, res: Response) => {
  * @access  Private
  */
 export const createDoc = asyncHandler(async (req: Request, res: Response) => {
-    const validatedData = docSchema.parse(req.body);
+    const { visibility, isPublic, redactSecrets, seriesId, status, publishAt, ...validatedData } = docSchema.parse(req.body);
     const userId = (req.user as any).id;
+    const resolvedVisibility = resolveVisibility({ visibility, isPublic });
 
-    const newDoc = await prisma.doc.create({
+    const publishState = resolvePublishState({ status, publishAt });
+    if (publishState.error) {
+        return res.status(400).json({ message: publishState.error });
+    }
+
+    if (seriesId) {
+        const series = await prisma.docSeries.findUnique({ where: { id: seriesId } });
+        if (!series) {
+            return res.status(404).json({ message: 'Series not found' });
+        }
+        if (series.authorId !== userId) {
+            return res.status(403).json({ message: 'Not authorized to add chapters to this series' });
+        }
+    }
+
+    // Docs others can read must not leak credentials
+    const secretCheck = applySecretPolicy(
+        { content: validatedData.content },
+        { isPublished: resolvedVisibility !== 'PRIVATE', redact: redactSecrets }
+    );
+    if (!secretCheck.ok) {
+        return res.status(400).json(secretsErrorBody(secretCheck.details));
+    }
+
+    // New docs in a series are appended as its latest chapter
+    const newDoc = await prisma.$transaction(async (tx) => tx.doc.create({
         data: {
             ...validatedData,
+            content: secretCheck.fields.content,
+            ...getDocOutlineFields(secretCheck.fields.content),
+            tags: normalizeTags(validatedData.tags),
+            visibility: resolvedVisibility,
+            ...publishState.state,
             authorId: userId,
+            ...(seriesId ? { seriesId, seriesPosition: await getNextSeriesPosition(tx, seriesId) } : {}),
         },
         include: {
             author: {
@@ -183,12 +320,12 @@ export const createDoc = asyncHandler(async (req: Request, res: Response) => {
                 select: { likes: true, comments: true, bookmarks: true },
             }
         },
-    });
+    }));
 
     // --- Real-time Feed Logic ---
-    // If the doc is public, push it to followers' feeds
-    if (newDoc.isPublic) {
-        emitToFollowers(userId, 'new-doc', newDoc);
+    // Push the doc to followers' feeds once it's published; drafts and scheduled docs wait
+    if (isNewlyPublished(newDoc.status)) {
+        await announceDoc(newDoc);
     }
 
     const formattedDoc = {
@@ -211,7 +348,8 @@ export const createDoc = asyncHandler(async (req: Request, res: Response) => {
  */
 export const updateDoc = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const validatedData = docSchema.parse(req.body);
+    const { visibility, isPublic, redactSecrets, status, publishAt, ...data } = docSchema.parse(req.body);
+    const { seriesId, ...validatedData } = data;
     const userId = (req.user as any).id;
 
     const doc = await prisma.doc.findUnique({ where: { id } });
@@ -220,17 +358,87 @@ export const updateDoc = asyncHandler(async (req: Request, res: Response) => {
         return res.status(404).json({ message: 'Document not found' });
     }
 
-    if (doc.authorId !== userId) {
+    // Co-authors can edit too, through the API as well as live
+    if (!(await canEditDoc(doc, userId))) {
         return res.status(403).json({ message: 'Not authorized to update this document' });
     }
 
-    const updatedDoc = await prisma.doc.update({
-        where: { id },
-        data: {
-            ...validatedData,
-            updatedAt: new Date(),
-        },
-    });
+    // Who can read the doc, when it's published and which series it's in stay the author's call;
+    // co-authors may resend the current values
+    const isAuthor = doc.authorId === userId;
+    if (!isAuthor) {
+        const changesPublishing =
+            ((visibility !== undefined || isPublic !== undefined) && resolveVisibility({ visibility, isPublic }) !== doc.visibility) ||
+            (status !== undefined && status !== doc.status) ||
+            (publishAt !== undefined && (publishAt?.getTime() ?? null) !== (doc.publishAt?.getTime() ?? null)) ||
+            (seriesId !== undefined && seriesId !== doc.seriesId);
+        if (changesPublishing) {
+            return res.status(403).json({ message: 'Only the author can change visibility, status, schedule or series' });
+        }
+    }
+    const resolvedVisibility = isAuthor ? resolveVisibility({ visibility, isPublic }) : doc.visibility;
+
+    const publishState = isAuthor ? resolvePublishState({ status, publishAt }, doc) : resolvePublishState({}, doc);
+    if (publishState.error) {
+        return res.status(400).json({ message: publishState.error });
+    }
+
+    // Moving to another series appends the doc there; omitting seriesId leaves it where it is
+    const joinsSeries = !!seriesId && seriesId !== doc.seriesId;
+    if (joinsSeries) {
+        const series = await prisma.docSeries.findUnique({ where: { id: seriesId } });
+        if (!series) {
+            return res.status(404).json({ message: 'Series not found' });
+        }
+        if (series.authorId !== doc.authorId) {
+            return res.status(403).json({ message: 'Not authorized to add chapters to this series' });
+        }
+    }
+
+    const secretCheck = applySecretPolicy(
+        { content: validatedData.content },
+        { isPublished: resolvedVisibility !== 'PRIVATE', redact: redactSecrets }
+    );
+    if (!secretCheck.ok) {
+        return res.status(400).json(secretsErrorBody(secretCheck.details));
+    }
+
+    const outline = getDocOutlineFields(secretCheck.fields.content);
+    const anchorIndex = indexDocAnchors(secretCheck.fields.content);
+
+    // Queued behind any save of live edits, whose session then continues from this content
+    const updatedDoc = await writeDocContent(id, () => prisma.$transaction(async (tx) => {
+        // Comments on a heading or paragraph follow it, or are marked outdated when it changed
+        await remapDocAnchors(tx, id, anchorIndex);
+        return tx.doc.update({
+            where: { id },
+            data: {
+                ...validatedData,
+                content: secretCheck.fields.content,
+                ...outline,
+                tags: normalizeTags(validatedData.tags),
+                visibility: resolvedVisibility,
+                ...publishState.state,
+                updatedAt: new Date(),
+                ...(joinsSeries ? { seriesId, seriesPosition: await getNextSeriesPosition(tx, seriesId!) } : {}),
+                ...(seriesId === null ? { seriesId: null, seriesPosition: null } : {}),
+            },
+        });
+    }));
+    invalidateRender('doc', id);
+
+    // Readers who joined live editing while the doc was open to them may not be able to read it now
+    if (updatedDoc.visibility !== doc.visibility || updatedDoc.status !== doc.status) {
+        await recheckCollabAccess(id);
+    }
+
+    // --- Real-time Notification Logic ---
+    // Publishing a draft announces it like a new doc; a published doc moved into a series is a new chapter
+    if (isNewlyPublished(updatedDoc.status, doc.status)) {
+        await announceDoc(updatedDoc);
+    } else if (joinsSeries && updatedDoc.status === 'PUBLISHED') {
+        await notifyNewChapter(updatedDoc);
+    }
 
     res.status(200).json(updatedDoc);
 });
@@ -262,6 +470,8 @@ export const deleteDoc = asyncHandler(async (req: Request, res: Response) => {
         prisma.bookmark.deleteMany({ where: { docId: id } }),
         prisma.doc.delete({ where: { id } }),
     ]);
+    invalidateRender('doc', id);
+    closeCollabSession(id);
 
     res.status(200).json({ message: 'Document deleted successfully' });
 });
@@ -285,10 +495,12 @@ export const getUserDocs = asyncHandler(async (req: Request, res: Response) => {
         return res.status(404).json({ message: 'User not found' });
     }
 
-    // Show private docs only to the owner
+    // Show unlisted and private docs only to the owner; drafts are listed separately
     const where: any = {
         authorId: user.id,
-        ...(currentUserId === user.id ? {} : { isPublic: true }),
+        ...(currentUserId === user.id
+            ? { status: { in: ['PUBLISHED', 'ARCHIVED'] } }
+            : { visibility: 'PUBLIC', status: 'PUBLISHED' }),
     };
 
     const [docs, total] = await Promise.all([
@@ -332,3 +544,219 @@ export const getUserDocs = asyncHandler(async (req: Request, res: Response) => {
         hasMore: skip + limit < total,
     });
 });
+
+
+/**
+ * @desc    Get the co-authors of a doc
+ * @route   GET /api/docs/:id/co-authors
+ * @access  Public (with checks for private docs)
+ */
+export const getDocCoAuthors = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const currentUserId = (req.user as any)?.id;
+
+    const doc = await prisma.doc.findUnique({ where: { id } });
+    if (!doc) {
+        return res.status(404).json({ message: 'Document not found' });
+    }
+
+    if (!(await canViewContent('doc', doc, currentUserId, req.query.token)) && !(await isDocCoAuthor(id, currentUserId))) {
+        return res.status(403).json({ message: 'Access denied to this document' });
+    }
+
+    const coAuthors = await prisma.docCoAuthor.findMany({
+        where: { docId: id },
+        orderBy: { createdAt: 'asc' },
+        select: {
+            createdAt: true,
+            user: { select: { id: true, username: true, name: true, avatar: true } },
+        },
+    });
+
+    res.status(200).json({
+        coAuthors: coAuthors.map(({ user, createdAt }) => ({ ...user, addedAt: createdAt })),
+    });
+});
+
+
+/**
+ * @desc    Invite a user to edit a doc as a co-author
+ * @route   POST /api/docs/:id/co-authors
+ * @access  Private (author only)
+ */
+export const addDocCoAuthor = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { username } = req.body;
+    const userId = (req.user as any).id;
+
+    if (typeof username !== 'string' || username.trim().length === 0) {
+        return res.status(400).json({ message: 'username is required' });
+    }
+
+    const doc = await prisma.doc.findUnique({ where: { id } });
+    if (!doc) {
+        return res.status(404).json({ message: 'Document not found' });
+    }
+
+    if (doc.authorId !== userId) {
+        return res.status(403).json({ message: 'Only the author can manage co-authors' });
+    }
+
+    const coAuthor = await prisma.user.findUnique({
+        where: { username: username.trim() },
+        select: { id: true, username: true, name: true, avatar: true },
+    });
+    if (!coAuthor) {
+        return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (coAuthor.id === doc.authorId) {
+        return res.status(400).json({ message: 'The author is already an editor of this document' });
+    }
+
+    if (await isDocCoAuthor(id, coAuthor.id)) {
+        return res.status(409).json({ message: 'User is already a co-author' });
+    }
+
+    await prisma.docCoAuthor.create({ data: { docId: id, userId: coAuthor.id } });
+
+    res.status(201).json(coAuthor);
+});
+
+
+/**
+ * @desc    Remove a co-author from a doc (co-authors can remove themselves)
+ * @route   DELETE /api/docs/:id/co-authors/:userId
+ * @access  Private (author or the co-author)
+ */
+export const removeDocCoAuthor = asyncHandler(async (req: Request, res: Response) => {
+    const { id, userId: coAuthorId } = req.params;
+    const userId = (req.user as any).id;
+
+    const doc = await prisma.doc.findUnique({ where: { id } });
+    if (!doc) {
+        return res.status(404).json({ message: 'Document not found' });
+    }
+
+    if (doc.authorId !== userId && coAuthorId !== userId) {
+        return res.status(403).json({ message: 'Only the author can manage co-authors' });
+    }
+
+    const { count } = await prisma.docCoAuthor.deleteMany({ where: { docId: id, userId: coAuthorId } });
+    if (count === 0) {
+        return res.status(404).json({ message: 'Co-author not found' });
+    }
+    // They may also have lost read access, e.g. to a private doc
+    await recheckCollabAccess(id);
+
+    res.status(200).json({ message: 'Co-author removed successfully' });
+});
+
+
+// Reads a front-matter value that should be text, ignoring other types.
+const frontMatterText = (data: FrontMatter, ...keys: string[]) => {
+    for (const key of keys) {
+        const value = data[key];
+        if (typeof value === 'string' && value.trim()) return value.trim();
+        if (typeof value === 'number') return String(value);
+    }
+    return undefined;
+};
+
+/**
+ * @desc    Import a Markdown file with YAML front-matter as a new doc. `title`, `description`,
+ *          `tags` and `coverImage` (or `cover_image`/`cover`) come from the front-matter; the
+ *          title falls back to the first heading, then the filename. `draft: true` or
+ *          `published: false` imports it as a draft. Other doc fields (visibility, seriesId,
+ *          status, ...) can be sent as form fields alongside the `file`.
+ * @route   POST /api/docs/import
+ * @access  Private
+ */
+export const importDoc = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.file) {
+        return res.status(400).json({ message: 'A Markdown file is required' });
+    }
+
+    let parsed: ReturnType<typeof parseFrontMatter>;
+    try {
+        parsed = parseFrontMatter(req.file.buffer.toString('utf-8'));
+    } catch (error) {
+        if (error instanceof FrontMatterError) {
+            return res.status(400).json({ message: error.message });
+        }
+        throw error;
+    }
+    const { data, body } = parsed;
+
+    const firstHeading = body.match(/^#[ \t]+(.+?)[ \t#]*$/m)?.[1];
+    const tags = Array.isArray(data.tags)
+        ? data.tags
+        : (frontMatterText(data, 'tags') ?? '').split(',');
+    const isDraft = data.draft === true || data.published === false;
+    // Form fields are always strings, so turn flags like redactSecrets back into booleans
+    const formFields = Object.fromEntries(
+        Object.entries(req.body ?? {}).map(([key, value]) => [key, value === 'true' ? true : value === 'false' ? false : value])
+    );
+
+    const payload = {
+        title: frontMatterText(data, 'title') ?? firstHeading ?? req.file.originalname.replace(/\.(md|markdown)$/i, ''),
+        description: frontMatterText(data, 'description', 'summary') ?? null,
+        coverImage: frontMatterText(data, 'coverImage', 'cover_image', 'cover') ?? null,
+        tags: tags.map(tag => tag.trim()).filter(Boolean),
+        content: body.trim(),
+        ...(isDraft ? { status: 'DRAFT' } : {}),
+        ...formFields,
+    };
+
+    const validation = docSchema.safeParse(payload);
+    if (!validation.success) {
+        return res.status(400).json({
+            message: 'Imported document is invalid',
+            details: validation.error.errors.map(err => ({
+                field: err.path.join('.'),
+                message: err.message,
+            })),
+        });
+    }
+
+    // Hand the validated values over to the regular create flow
+    req.body = validation.data;
+    return createDoc(req, res, next);
+});
+
+
+/**
+ * @desc    Export a doc as Markdown with YAML front-matter (?format=md, the default) or as a
+ *          standalone HTML page with uploaded images inlined (?format=html)
+ * @route   GET /api/docs/:id/export
+ * @access  Public (with checks for private docs)
+ */
+export const exportDoc = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const format = (req.query.format as string) || 'md';
+    const currentUserId = (req.user as any)?.id;
+
+    if (format !== 'md' && format !== 'html') {
+        return res.status(400).json({ message: 'format must be "md" or "html"' });
+    }
+
+    const doc = await prisma.doc.findUnique({
+        where: { id },
+        include: { author: { select: { username: true, name: true } } },
+    });
+
+    if (!doc) {
+        return res.status(404).json({ message: 'Document not found' });
+    }
+
+    if (!(await canViewContent('doc', doc, currentUserId, req.query.token)) && !(await isDocCoAuthor(id, currentUserId))) {
+        return res.status(403).json({ message: 'Access denied to this document' });
+    }
+
+    res.attachment(getExportFilename(doc, format));
+    if (format === 'html') {
+        res.type('html').send(await exportDocHtml(doc));
+    } else {
+        res.type('text/markdown; charset=utf-8').send(exportDocMarkdown(doc));
+    }
+});
@@ -66,7 +66,7 @@ export const getFeed = async (req: Request, res: Response) => {
     // Get mixed content from followed users
     const [snippets, docs, bugs] = await Promise.all([
       prisma.snippet.findMany({
-        where: { authorId: { in: followingIds }, isPublic: true },
+        where: { authorId: { in: followingIds }, visibility: 'PUBLIC', status: 'PUBLISHED' },
         include: {
           author: { select: { id: true, username: true, name: true, avatar: true } },
           _count: { select: { likes: true, comments: true, bookmarks: true } },
@@ -77,7 +77,7 @@ export const getFeed = async (req: Request, res: Response) => {
         take: Math.ceil(limit * 0.7),
       }),
       prisma.doc.findMany({
-        where: { authorId: { in: followingIds }, isPublic: true },
+        where: { authorId: { in: followingIds }, visibility: 'PUBLIC', status: 'PUBLISHED' },
         include: {
           author: { select: { id: true, username: true, name: true, avatar: true } },
           _count: { select: { likes: true, comments: true, bookmarks: true } },
@@ -140,7 +140,7 @@ export const getFeed = async (req: Request, res: Response) => {
     // If no followed content, show public content
     if (feedItems.length === 0 && page === 1) {
       const publicSnippets = await prisma.snippet.findMany({
-        where: { isPublic: true },
+        where: { visibility: 'PUBLIC', status: 'PUBLISHED' },
         include: {
           author: { select: { id: true, username: true, name: true, avatar: true } },
           _count: { select: { likes: true, comments: true, bookmarks: true } },
@@ -185,7 +185,7 @@ export const getPublicFeed = async (req: Request, res: Response) => {
     const skip = (page - 1) * limit;
 
     const snippets = await prisma.snippet.findMany({
-      where: { isPublic: true },
+      where: { visibility: 'PUBLIC', status: 'PUBLISHED' },
       include: {
         author: {
           select: {
@@ -234,3 +234,52 @@ export const getSuggestedUsers = async (req: Request, res: Response) => {
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+// Follow/unfollow a tag, e.g. to be alerted when a bug with that tag is escalated
+export const toggleTagFollow = async (req: Request, res: Response) => {
+  try {
+    const tag = req.params.tag.trim().toLowerCase();
+    const userId = (req.user as any).id;
+
+    if (!tag || tag.length > 50) {
+      return res.status(400).json({ error: 'Invalid tag' });
+    }
+
+    const existingFollow = await prisma.tagFollow.findUnique({
+      where: { userId_tag: { userId, tag } },
+    });
+
+    if (existingFollow) {
+      await prisma.tagFollow.delete({
+        where: { id: existingFollow.id },
+      });
+      res.json({ tag, following: false, message: 'Unfollowed tag successfully' });
+    } else {
+      await prisma.tagFollow.create({
+        data: { userId, tag },
+      });
+      res.json({ tag, following: true, message: 'Followed tag successfully' });
+    }
+  } catch (error) {
+    console.error('Error toggling tag follow:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Get the tags the current user follows
+export const getFollowedTags = async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any).id;
+
+    const follows = await prisma.tagFollow.findMany({
+      where: { userId },
+      select: { tag: true, createdAt: true },
+      orderBy: { tag: 'asc' },
+    });
+
+    res.json({ tags: follows });
+  } catch (error) {
+    console.error('Error fetching followed tags:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -58,8 +58,28 @@ export const searchAll = async (req: Request, res: Response) => {
       ],
     };
 
+    // Snippet code lives in its files, so match against every file rather than the top-level content
+    const snippetSearchCondition = {
+      OR: [
+        { title: { contains: query, mode: 'insensitive' as const } },
+        { description: { contains: query, mode: 'insensitive' as const } },
+        {
+          files: {
+            some: {
+              OR: [
+                { content: { contains: query, mode: 'insensitive' as const } },
+                { filename: { contains: query, mode: 'insensitive' as const } },
+              ],
+            },
+          },
+        },
+      ],
+    };
+
     const tagCondition = tags ? { tags: { hasSome: tags.split(',') } } : {};
-    const languageCondition = language ? { language: { equals: language, mode: 'insensitive' as const } } : {};
+    const languageCondition = language
+      ? { files: { some: { language: { equals: language, mode: 'insensitive' as const } } } }
+      : {};
 
     const orderBy = getOrderBy(sortBy);
 
@@ -105,10 +125,11 @@ export const searchAll = async (req: Request, res: Response) => {
 
     if (type === 'all' || type === 'snippets') {
       const snippetCondition = {
-        ...searchCondition,
+        ...snippetSearchCondition,
         ...tagCondition,
         ...languageCondition,
-        isPublic: true,
+        visibility: 'PUBLIC' as const,
+        status: 'PUBLISHED' as const,
       };
 
       const [snippets, snippetCount] = await Promise.all([
@@ -145,7 +166,8 @@ export const searchAll = async (req: Request, res: Response) => {
       const docCondition = {
         ...searchCondition,
         ...tagCondition,
-        isPublic: true,
+        visibility: 'PUBLIC' as const,
+        status: 'PUBLISHED' as const,
       };
 
       const [docs, docCount] = await Promise.all([
@@ -241,7 +263,8 @@ export const getTrending = async (req: Request, res: Response) => {
     if (type === 'all' || type === 'snippets') {
       const trendingSnippets = await prisma.snippet.findMany({
         where: {
-          isPublic: true,
+          visibility: 'PUBLIC',
+          status: 'PUBLISHED',
           createdAt: { gte: weekAgo },
         },
         include: {
@@ -275,7 +298,8 @@ export const getTrending = async (req: Request, res: Response) => {
     if (type === 'all' || type === 'docs') {
       const trendingDocs = await prisma.doc.findMany({
         where: {
-          isPublic: true,
+          visibility: 'PUBLIC',
+          status: 'PUBLISHED',
           createdAt: { gte: weekAgo },
         },
         include: {
@@ -352,11 +376,11 @@ export const getTags = async (req: Request, res: Response) => {
 
     const [snippetTags, docTags, bugTags] = await Promise.all([
       prisma.snippet.findMany({
-        where: { isPublic: true },
+        where: { visibility: 'PUBLIC', status: 'PUBLISHED' },
         select: { tags: true },
       }),
       prisma.doc.findMany({
-        where: { isPublic: true },
+        where: { visibility: 'PUBLIC', status: 'PUBLISHED' },
         select: { tags: true },
       }),
       prisma.bug.findMany({
@@ -0,0 +1,356 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/db';
+import { z } from 'zod';
+import { asyncHandler } from '../utils/asyncHandler';
+import { normalizeTags } from '../utils/tags';
+import { getNextSeriesPosition, notifyNewChapter } from '../services/docSeriesService';
+import { isOpenToEveryone } from '../services/shareService';
+import { PublishStatus, Visibility } from '@prisma/client';
+
+// Zod schema for creating and updating a series
+const seriesSchema = z.object({
+  title: z.string().min(1, "Title is required").max(255),
+  description: z.string().max(1000).nullable().optional(),
+  coverImage: z.string().url("Cover image must be a URL").max(2048).nullable().optional(),
+  tags: z.array(z.string()).default([]),
+});
+
+// On creation, existing docs can be grouped into the series in the given order
+const createSeriesSchema = seriesSchema.extend({
+  docIds: z.array(z.string()).max(200).default([]),
+});
+
+// Zod schema for reordering: every chapter ID in its new order
+const reorderSchema = z.object({
+  docIds: z.array(z.string()).min(1),
+});
+
+const addChapterSchema = z.object({
+  docId: z.string().min(1),
+});
+
+const authorSelect = { id: true, username: true, name: true, avatar: true };
+
+const chapterSelect = {
+  id: true,
+  title: true,
+  description: true,
+  coverImage: true,
+  visibility: true,
+  status: true,
+  authorId: true,
+  seriesPosition: true,
+  createdAt: true,
+};
+
+const sendValidationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({
+    error: 'Invalid data',
+    details: error.errors.map(err => ({
+      field: err.path.join('.'),
+      message: err.message,
+    })),
+  });
+
+// Other people's private and unpublished chapters are left out of the chapter list
+const visibleChapters = <T extends { visibility: Visibility; status: PublishStatus; authorId: string }>(docs: T[], viewerId?: string) =>
+  docs.filter(doc => isOpenToEveryone(doc) || doc.authorId === viewerId);
+
+
+/**
+ * @desc    Get a user's doc series
+ * @route   GET /api/series/user/:username
+ * @access  Public
+ */
+export const getUserSeries = asyncHandler(async (req: Request, res: Response) => {
+    const { username } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { username }, select: { id: true } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const series = await prisma.docSeries.findMany({
+      where: { authorId: user.id },
+      orderBy: { updatedAt: 'desc' },
+      include: {
+        _count: { select: { docs: true } },
+      },
+    });
+
+    res.json({
+      series: series.map(item => ({ ...item, chaptersCount: item._count.docs })),
+    });
+});
+
+/**
+ * @desc    Get a series with its chapters in order
+ * @route   GET /api/series/:id
+ * @access  Public (private chapters only for the author)
+ */
+export const getSeriesById = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const currentUserId = (req.user as any)?.id;
+
+    const series = await prisma.docSeries.findUnique({
+      where: { id },
+      include: {
+        author: { select: authorSelect },
+        docs: {
+          orderBy: { seriesPosition: 'asc' },
+          select: chapterSelect,
+        },
+      },
+    });
+
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    const chapters = visibleChapters(series.docs, currentUserId);
+
+    res.json({
+      ...series,
+      docs: chapters.map((doc, index) => ({ ...doc, chapter: index + 1 })),
+      chaptersCount: chapters.length,
+    });
+});
+
+/**
+ * @desc    Create a series, optionally grouping existing docs as its first chapters
+ * @route   POST /api/series
+ * @access  Private
+ */
+export const createSeries = asyncHandler(async (req: Request, res: Response) => {
+    const parsed = createSeriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { docIds, tags, ...data } = parsed.data;
+    const userId = (req.user as any).id;
+
+    if (new Set(docIds).size !== docIds.length) {
+      return res.status(400).json({ error: 'docIds must not contain duplicates' });
+    }
+
+    // Only the author's own docs that aren't already in a series can be grouped
+    if (docIds.length > 0) {
+      const docs = await prisma.doc.findMany({
+        where: { id: { in: docIds } },
+        select: { id: true, authorId: true, seriesId: true },
+      });
+      if (docs.length !== docIds.length || docs.some(doc => doc.authorId !== userId)) {
+        return res.status(400).json({ error: 'Series can only contain your own docs' });
+      }
+      if (docs.some(doc => doc.seriesId)) {
+        return res.status(409).json({ error: 'A doc can only belong to one series' });
+      }
+    }
+
+    const series = await prisma.$transaction(async (tx) => {
+      const created = await tx.docSeries.create({
+        data: {
+          ...data,
+          tags: normalizeTags(tags),
+          authorId: userId,
+        },
+      });
+      await Promise.all(docIds.map((docId, position) =>
+        tx.doc.update({ where: { id: docId }, data: { seriesId: created.id, seriesPosition: position } })
+      ));
+      return tx.docSeries.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          author: { select: authorSelect },
+          docs: { orderBy: { seriesPosition: 'asc' }, select: chapterSelect },
+        },
+      });
+    });
+
+    res.status(201).json(series);
+});
+
+/**
+ * @desc    Update a series' metadata
+ * @route   PUT /api/series/:id
+ * @access  Private (author only)
+ */
+export const updateSeries = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const parsed = seriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const series = await prisma.docSeries.findUnique({ where: { id } });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    if (series.authorId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to update this series' });
+    }
+
+    const updatedSeries = await prisma.docSeries.update({
+      where: { id },
+      data: {
+        ...parsed.data,
+        tags: normalizeTags(parsed.data.tags),
+      },
+    });
+
+    res.json(updatedSeries);
+});
+
+/**
+ * @desc    Delete a series; its docs are kept as standalone docs
+ * @route   DELETE /api/series/:id
+ * @access  Private (author only)
+ */
+export const deleteSeries = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const series = await prisma.docSeries.findUnique({ where: { id } });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    if (series.authorId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to delete this series' });
+    }
+
+    await prisma.$transaction([
+      prisma.doc.updateMany({ where: { seriesId: id }, data: { seriesId: null, seriesPosition: null } }),
+      prisma.docSeries.delete({ where: { id } }),
+    ]);
+
+    res.json({ message: 'Series deleted successfully' });
+});
+
+/**
+ * @desc    Append one of your docs to a series as its newest chapter
+ * @route   POST /api/series/:id/docs
+ * @access  Private (author only)
+ */
+export const addSeriesChapter = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const parsed = addChapterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { docId } = parsed.data;
+
+    const series = await prisma.docSeries.findUnique({ where: { id } });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    if (series.authorId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to modify this series' });
+    }
+
+    const doc = await prisma.doc.findUnique({ where: { id: docId } });
+    if (!doc) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (doc.authorId !== userId) {
+      return res.status(403).json({ error: 'Series can only contain your own docs' });
+    }
+
+    if (doc.seriesId) {
+      return res.status(409).json({ error: 'A doc can only belong to one series' });
+    }
+
+    const chapter = await prisma.$transaction(async (tx) =>
+      tx.doc.update({
+        where: { id: docId },
+        data: { seriesId: id, seriesPosition: await getNextSeriesPosition(tx, id) },
+        select: chapterSelect,
+      })
+    );
+
+    // --- Real-time Notification Logic ---
+    await notifyNewChapter(chapter);
+
+    res.status(201).json(chapter);
+});
+
+/**
+ * @desc    Remove a chapter from a series; the doc itself is kept
+ * @route   DELETE /api/series/:id/docs/:docId
+ * @access  Private (author only)
+ */
+export const removeSeriesChapter = asyncHandler(async (req: Request, res: Response) => {
+    const { id, docId } = req.params;
+    const userId = (req.user as any).id;
+
+    const series = await prisma.docSeries.findUnique({ where: { id } });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    if (series.authorId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to modify this series' });
+    }
+
+    const doc = await prisma.doc.findFirst({ where: { id: docId, seriesId: id } });
+    if (!doc) {
+      return res.status(404).json({ error: 'Chapter not found in this series' });
+    }
+
+    await prisma.doc.update({
+      where: { id: docId },
+      data: { seriesId: null, seriesPosition: null },
+    });
+
+    res.json({ message: 'Chapter removed from series' });
+});
+
+/**
+ * @desc    Reorder the chapters of a series
+ * @route   PUT /api/series/:id/order
+ * @access  Private (author only)
+ */
+export const reorderSeries = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const parsed = reorderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { docIds } = parsed.data;
+
+    const series = await prisma.docSeries.findUnique({
+      where: { id },
+      include: { docs: { select: { id: true } } },
+    });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    if (series.authorId !== userId) {
+      return res.status(403).json({ error: 'Not authorized to modify this series' });
+    }
+
+    // The new order must mention every chapter exactly once
+    const currentIds = new Set(series.docs.map(doc => doc.id));
+    const requestedIds = new Set(docIds);
+    if (requestedIds.size !== docIds.length || requestedIds.size !== currentIds.size || docIds.some(docId => !currentIds.has(docId))) {
+      return res.status(400).json({ error: 'docIds must list every chapter in the series exactly once' });
+    }
+
+    await prisma.$transaction(
+      docIds.map((docId, position) =>
+        prisma.doc.update({ where: { id: docId }, data: { seriesPosition: position } })
+      )
+    );
+
+    res.json({ message: 'Series reordered successfully', docIds });
+});
@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/db';
+import { z } from 'zod';
+import { asyncHandler } from '../utils/asyncHandler';
+import { generateShareToken, ShareableKind } from '../services/shareService';
+import { recheckCollabAccess } from '../services/docCollabService';
+
+// Zod schema for creating a share link; links without an expiry stay valid until revoked
+const shareLinkSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(24 * 365).optional(),
+});
+
+// Looks up the snippet, doc or collection a share link belongs to
+const findShareableContent = async (kind: ShareableKind, id: string) => {
+  if (kind === 'snippet') {
+    return prisma.snippet.findUnique({ where: { id }, select: { id: true, authorId: true } });
+  }
+  if (kind === 'doc') {
+    return prisma.doc.findUnique({ where: { id }, select: { id: true, authorId: true } });
+  }
+  const collection = await prisma.collection.findUnique({ where: { id }, select: { id: true, ownerId: true } });
+  return collection ? { id: collection.id, authorId: collection.ownerId } : null;
+};
+
+// The share link column that points at the given content
+const shareLinkTarget = (kind: ShareableKind, id: string) =>
+  kind === 'snippet' ? { snippetId: id } : kind === 'doc' ? { docId: id } : { collectionId: id };
+
+const contentLabel = (kind: ShareableKind) =>
+  ({ snippet: 'Snippet', doc: 'Document', collection: 'Collection' })[kind];
+
+const buildShareUrl = (kind: ShareableKind, id: string, token: string) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${frontendUrl}/${kind}s/${id}?token=${token}`;
+};
+
+/**
+ * @desc    Create a share link granting read access to a snippet, doc or collection
+ * @route   POST /api/{snippets,docs,collections}/:id/share-links
+ * @access  Private (author/owner only)
+ */
+export const createShareLink = (kind: ShareableKind) => asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const parsed = shareLinkSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+        return res.status(400).json({
+            error: 'Invalid data',
+            details: parsed.error.errors.map(err => ({
+                field: err.path.join('.'),
+                message: err.message,
+            })),
+        });
+    }
+
+    const content = await findShareableContent(kind, id);
+    if (!content) {
+        return res.status(404).json({ error: `${contentLabel(kind)} not found` });
+    }
+
+    if (content.authorId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { expiresInHours } = parsed.data;
+    const link = await prisma.shareLink.create({
+        data: {
+            token: generateShareToken(),
+            expiresAt: expiresInHours ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000) : null,
+            createdById: userId,
+            ...shareLinkTarget(kind, id),
+        },
+    });
+
+    res.status(201).json({ ...link, url: buildShareUrl(kind, id, link.token) });
+});
+
+/**
+ * @desc    List the share links of a snippet, doc or collection
+ * @route   GET /api/{snippets,docs,collections}/:id/share-links
+ * @access  Private (author/owner only)
+ */
+export const getShareLinks = (kind: ShareableKind) => asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = (req.user as any).id;
+
+    const content = await findShareableContent(kind, id);
+    if (!content) {
+        return res.status(404).json({ error: `${contentLabel(kind)} not found` });
+    }
+
+    if (content.authorId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const links = await prisma.shareLink.findMany({
+        where: shareLinkTarget(kind, id),
+        orderBy: { createdAt: 'desc' },
+    });
+
+    const now = new Date();
+    res.json({
+        links: links.map(link => ({
+            ...link,
+            url: buildShareUrl(kind, id, link.token),
+            isActive: !link.revokedAt && (!link.expiresAt || link.expiresAt > now),
+        })),
+    });
+});
+
+/**
+ * @desc    Revoke a share link so its token no longer grants access
+ * @route   DELETE /api/{snippets,docs,collections}/:id/share-links/:linkId
+ * @access  Private (author/owner only)
+ */
+export const revokeShareLink = (kind: ShareableKind) => asyncHandler(async (req: Request, res: Response) => {
+    const { id, linkId } = req.params;
+    const userId = (req.user as any).id;
+
+    const content = await findShareableContent(kind, id);
+    if (!content) {
+        return res.status(404).json({ error: `${contentLabel(kind)} not found` });
+    }
+
+    if (content.authorId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const link = await prisma.shareLink.findFirst({
+        where: { id: linkId, ...shareLinkTarget(kind, id) },
+    });
+
+    if (!link) {
+        return res.status(404).json({ error: 'Share link not found' });
+    }
+
+    if (!link.revokedAt) {
+        await prisma.shareLink.update({
+            where: { id: linkId },
+            data: { revokedAt: new Date() },
+        });
+    }
+
+    // Anyone live editing a doc through this link loses access with it
+    if (kind === 'doc') {
+        await recheckCollabAccess(id);
+    }
+
+    res.json({ message: 'Share link revoked successfully' });
+});
@@ -1,8 +1,20 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/db';
 import { z } from 'zod';
-import { emitToFollowers } from '../socket';
-import { Snippet, Like, Bookmark } from '@prisma/client';
+import { emitToFollowers, getIO } from '../socket';
+import * as notificationService from '../services/notificationService';
+import { Snippet, SnippetFile, Like, Bookmark } from '@prisma/client';
+import { recordSnippetRevision, ensureBaselineRevision, getRevisionFiles, redactRevision } from '../services/snippetRevisionService';
+import { canDiffLines, diffLines } from '../utils/diff';
+import { getSnippetHtml, invalidateRender, renderSnippetEmbed, escapeHtml } from '../services/renderService';
+import { getDefaultFilename, withFileExtension } from '../utils/languages';
+import { normalizeTags } from '../utils/tags';
+import { canViewContent, isOpenToEveryone, resolveVisibility } from '../services/shareService';
+import { publishStateFields, resolvePublishState, isNewlyPublished, announceSnippet } from '../services/publishingService';
+import { AUTO_LANGUAGE, detectLanguage, suggestTags, resolveFileLanguage } from '../services/languageDetectionService';
+import { applySecretPolicy, secretsErrorBody } from '../services/secretScanService';
+import { runCode, getSandboxRuntime, getSupportedLanguages, SandboxBusyError, SandboxUnavailableError } from '../services/sandboxService';
+import { prepareSnippetAnchorRemap, remapSnippetAnchors } from '../services/commentAnchorService';
 
 // Type for the author object included in queries
 type AuthorInfo = {
@@ -19,6 +31,7 @@ type ContentCounts = {
     likes: number;
     comments: number;
     bookmarks: number;
+    forks: number;
   };
 };
 
@@ -28,13 +41,18 @@ type UserInteractions = {
   bookmarks: Bookmark[];
 };
 
+// Type for the files included in queries (content is omitted in list queries)
+type SnippetFiles = {
+  files: (Omit<SnippetFile, 'snippetId' | 'content'> & Partial<Pick<SnippetFile, 'content'>>)[];
+};
+
 // Combined type for a snippet returned from a list query
-type SnippetFromList = Snippet & ContentCounts & Partial<UserInteractions> & {
+type SnippetFromList = Snippet & ContentCounts & Partial<UserInteractions> & Partial<SnippetFiles> & {
   author: AuthorInfo;
 };
 
 // Combined type for a single snippet with full details
-type SnippetWithDetails = Snippet & ContentCounts & Partial<UserInteractions> & {
+type SnippetWithDetails = Snippet & ContentCounts & Partial<UserInteractions> & SnippetFiles & {
   author: AuthorInfo & {
     _count: {
       snippets: number;
@@ -50,15 +68,140 @@ type TrendingSnippet = Snippet & ContentCounts & {
 };
 
 
+// Size limits for multi-file snippets (measured in characters)
+const MAX_FILES_PER_SNIPPET = 20;
+const MAX_FILE_SIZE = 100 * 1024;
+const MAX_SNIPPET_SIZE = 500 * 1024;
+
+const snippetFileSchema = z.object({
+  filename: z.string().trim().min(1).max(255).regex(/^[^\/\\]+$/, 'Filename cannot contain path separators'),
+  language: z.string().min(1),
+  content: z.string().min(1).max(MAX_FILE_SIZE, `Each file must be at most ${MAX_FILE_SIZE} characters`),
+});
+
+// A snippet is either an ordered list of `files`, or (legacy clients) a single `content` + `language`
 const snippetSchema = z.object({
   title: z.string().min(1).max(100),
   description: z.string().optional(),
-  content: z.string().min(1),
-  language: z.string().min(1),
+  content: z.string().min(1).max(MAX_FILE_SIZE).optional(),
+  language: z.string().min(1).optional(),
+  files: z.array(snippetFileSchema).min(1).max(MAX_FILES_PER_SNIPPET).optional(),
   tags: z.array(z.string()).default([]),
-  isPublic: z.boolean().default(true),
+  visibility: z.enum(['PUBLIC', 'UNLISTED', 'PRIVATE']).optional(),
+  isPublic: z.boolean().optional(), // Legacy flag, used when `visibility` is omitted
+  redactSecrets: z.boolean().optional(), // Replace detected secrets instead of rejecting the snippet
+  ...publishStateFields,
+}).superRefine((data, ctx) => {
+  if (!data.files && !(data.content && data.language)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['files'],
+      message: 'Provide either files or content and language',
+    });
+    return;
+  }
+  if (data.files) {
+    const totalSize = data.files.reduce((sum, file) => sum + file.content.length, 0);
+    if (totalSize > MAX_SNIPPET_SIZE) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['files'],
+        message: `Total snippet size must be at most ${MAX_SNIPPET_SIZE} characters`,
+      });
+    }
+    const seen = new Set<string>();
+    data.files.forEach((file, index) => {
+      const key = file.filename.toLowerCase();
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['files', index, 'filename'],
+          message: 'Filenames must be unique within a snippet',
+        });
+      }
+      seen.add(key);
+    });
+  }
+});
+
+type SnippetInput = z.infer<typeof snippetSchema>;
+
+// Code submitted for language detection and tag suggestions
+const analyzeSnippetSchema = z.object({
+  content: z.string().min(1).max(MAX_FILE_SIZE).optional(),
+  filename: z.string().optional(),
+  files: z.array(z.object({
+    filename: z.string().optional(),
+    content: z.string().min(1).max(MAX_FILE_SIZE),
+  })).min(1).max(MAX_FILES_PER_SNIPPET).optional(),
+}).refine(data => data.content || data.files, {
+  message: 'Provide either content or files',
+  path: ['content'],
+});
+
+// Options for running a snippet in the sandbox
+const runSnippetSchema = z.object({
+  file: z.string().optional(), // Defaults to the snippet's first file
+  stdin: z.string().max(64 * 1024).optional(),
+  stream: z.boolean().default(false), // Also push output live to the caller's user room
 });
 
+// Whether the payload asks for any file's language to be detected
+const usesAutoLanguage = (data: SnippetInput) =>
+  data.language?.toLowerCase() === AUTO_LANGUAGE ||
+  !!data.files?.some(file => file.language.toLowerCase() === AUTO_LANGUAGE);
+
+// Resolves the ordered file list for a validated snippet payload, detecting `language: "auto"`
+const getSnippetFiles = (data: SnippetInput) => {
+  if (data.files) {
+    return data.files.map(resolveFileLanguage);
+  }
+  const { language } = resolveFileLanguage({ language: data.language!, content: data.content! });
+  return [{
+    filename: getDefaultFilename(language),
+    language,
+    content: data.content!,
+  }];
+};
+
+// Snippets others can read must not leak credentials: returns the files to store, or the findings to reject
+const screenSnippetSecrets = <T extends { content: string }>(data: SnippetInput, files: T[]) => {
+  const fieldName = (index: number) => (data.files ? `files.${index}.content` : 'content');
+  const result = applySecretPolicy(
+    Object.fromEntries(files.map((file, index) => [fieldName(index), file.content])),
+    { isPublished: resolveVisibility(data) !== 'PRIVATE', redact: data.redactSecrets }
+  );
+  return result.ok
+    ? { files: files.map((file, index) => ({ ...file, content: result.fields[fieldName(index)] })) }
+    : { details: result.details };
+};
+
+// Builds the scalar snippet fields; content/language mirror the first file
+const buildSnippetData = (data: SnippetInput, files: z.infer<typeof snippetFileSchema>[]) => {
+  // Clean and validate tags; detected snippets without tags get suggested ones
+  const tags = data.tags.length === 0 && usesAutoLanguage(data) ? suggestTags(files) : data.tags;
+  const cleanTags = normalizeTags(tags);
+
+  return {
+    title: data.title,
+    description: data.description,
+    content: files[0].content,
+    language: files[0].language,
+    tags: cleanTags,
+    visibility: resolveVisibility(data),
+  };
+};
+
+const fileListInclude = {
+  orderBy: { position: 'asc' as const },
+  select: { id: true, filename: true, language: true, position: true },
+};
+
+const fileDetailInclude = {
+  orderBy: { position: 'asc' as const },
+  select: { id: true, filename: true, language: true, content: true, position: true },
+};
+
 // Get all snippets with pagination
 export const getAllSnippets = async (req: Request, res: Response) => {
   try {
@@ -70,14 +213,24 @@ export const getAllSnippets = async (req: Request, res: Response) => {
     const sortBy = req.query.sort as string || 'recent';
     const skip = (page - 1) * limit;
 
-    const where: any = { isPublic: true };
+    // Only published public snippets are listed; unlisted ones are reachable by direct link only
+    const where: any = { visibility: 'PUBLIC', status: 'PUBLISHED' };
 
     // Search functionality
     if (search) {
       where.OR = [
         { title: { contains: search, mode: 'insensitive' } },
         { description: { contains: search, mode: 'insensitive' } },
-        { content: { contains: search, mode: 'insensitive' } },
+        {
+          files: {
+            some: {
+              OR: [
+                { content: { contains: search, mode: 'insensitive' } },
+                { filename: { contains: search, mode: 'insensitive' } },
+              ],
+            },
+          },
+        },
       ];
     }
 
@@ -89,9 +242,9 @@ export const getAllSnippets = async (req: Request, res: Response) => {
       }
     }
 
-    // Filter by language
+    // Filter by language (matches any file in the snippet)
     if (language) {
-      where.language = { equals: language, mode: 'insensitive' };
+      where.files = { some: { language: { equals: language, mode: 'insensitive' } } };
     }
 
     // Sorting options
@@ -135,11 +288,13 @@ export const getAllSnippets = async (req: Request, res: Response) => {
               bio: true,
             },
           },
+          files: fileListInclude,
           _count: {
             select: {
               likes: true,
               comments: true,
               bookmarks: true,
+              forks: true,
             },
           },
           // Include user interactions if authenticated
@@ -166,6 +321,7 @@ export const getAllSnippets = async (req: Request, res: Response) => {
       likesCount: snippet._count.likes,
       commentsCount: snippet._count.comments,
       bookmarksCount: snippet._count.bookmarks,
+      forksCount: snippet._count.forks,
       // Remove the likes/bookmarks arrays from response
       likes: undefined,
       bookmarks: undefined,
@@ -184,7 +340,7 @@ export const getAllSnippets = async (req: Request, res: Response) => {
   }
 };
 
-// Get single snippet
+// Get single snippet (pass ?format=html for highlighted HTML)
 export const getSnippetById = async (req: Request, res: Response) => {
   try {
     const snippetId = req.params.id;
@@ -209,11 +365,29 @@ export const getSnippetById = async (req: Request, res: Response) => {
             },
           },
         },
+        files: fileDetailInclude,
+        forkedFrom: {
+          select: {
+            id: true,
+            title: true,
+            visibility: true,
+            status: true,
+            author: {
+              select: {
+                id: true,
+                username: true,
+                name: true,
+                avatar: true,
+              },
+            },
+          },
+        },
         _count: {
           select: {
             likes: true,
             comments: true,
             bookmarks: true,
+            forks: true,
           },
         },
         // Include user interactions if authenticated
@@ -234,8 +408,8 @@ export const getSnippetById = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Snippet not found' });
     }
 
-    // Check access permissions
-    if (!snippet.isPublic && snippet.authorId !== userId) {
+    // Check access permissions (private snippets also accept a share token)
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -244,7 +418,7 @@ export const getSnippetById = async (req: Request, res: Response) => {
       where: {
         AND: [
           { id: { not: snippetId } },
-          { isPublic: true },
+          { visibility: 'PUBLIC', status: 'PUBLISHED' },
           {
             OR: [
               { language: snippet.language },
@@ -285,6 +459,11 @@ export const getSnippetById = async (req: Request, res: Response) => {
       likesCount: snippet._count.likes,
       commentsCount: snippet._count.comments,
       bookmarksCount: snippet._count.bookmarks,
+      forksCount: snippet._count.forks,
+      // Only credit the parent snippet while it is still reachable
+      forkedFrom: snippet.forkedFrom && isOpenToEveryone(snippet.forkedFrom) ? snippet.forkedFrom : null,
+      // Rendered, highlighted HTML on request (?format=html)
+      ...(req.query.format === 'html' ? { html: getSnippetHtml(snippet) } : {}),
       relatedSnippets,
       // Remove the likes/bookmarks arrays from response
       likes: undefined,
@@ -303,43 +482,58 @@ export const createSnippet = async (req: Request, res: Response) => {
   try {
     const validatedData = snippetSchema.parse(req.body);
     const userId = (req.user as any).id;
-    
-    // Clean and validate tags
-    const cleanTags = validatedData.tags
-      .map(tag => tag.trim().toLowerCase())
-      .filter(tag => tag.length > 0 && tag.length <= 50)
-      .slice(0, 10); // Limit to 10 tags
-
-    const snippet = await prisma.snippet.create({
-      data: {
-        ...validatedData,
-        tags: cleanTags,
-        authorId: userId,
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            name: true,
-            avatar: true,
-            bio: true,
+
+    const publishState = resolvePublishState(validatedData);
+    if (publishState.error) {
+      return res.status(400).json({ error: publishState.error });
+    }
+
+    const screened = screenSnippetSecrets(validatedData, getSnippetFiles(validatedData));
+    if (screened.details) {
+      return res.status(400).json(secretsErrorBody(screened.details));
+    }
+    const { files } = screened;
+
+    // Create the snippet together with its files and first revision
+    const snippet = await prisma.$transaction(async (tx) => {
+      const created = await tx.snippet.create({
+        data: {
+          ...buildSnippetData(validatedData, files),
+          ...publishState.state,
+          authorId: userId,
+          files: {
+            create: files.map((file, position) => ({ ...file, position })),
           },
         },
-        _count: {
-          select: {
-            likes: true,
-            comments: true,
-            bookmarks: true,
+        include: {
+          files: fileDetailInclude,
+          author: {
+            select: {
+              id: true,
+              username: true,
+              name: true,
+              avatar: true,
+              bio: true,
+            },
+          },
+          _count: {
+            select: {
+              likes: true,
+              comments: true,
+              bookmarks: true,
+              forks: true,
+            },
           },
         },
-      },
+      });
+      await recordSnippetRevision(tx, created, userId);
+      return created;
     });
 
     // --- Real-time Logic ---
-    // Emit event to followers for real-time feed update
-    if (snippet.isPublic) {
-        emitToFollowers(userId, 'new-snippet', snippet);
+    // Emit event to followers for real-time feed update; drafts and scheduled snippets wait until they're published
+    if (isNewlyPublished(snippet.status)) {
+      announceSnippet(snippet);
     }
 
     // Format response
@@ -350,6 +544,7 @@ export const createSnippet = async (req: Request, res: Response) => {
       likesCount: 0,
       commentsCount: 0,
       bookmarksCount: 0,
+      forksCount: 0,
     };
 
     res.status(201).json(formattedSnippet);
@@ -376,6 +571,7 @@ export const updateSnippet = async (req: Request, res: Response) => {
 
     const snippet = await prisma.snippet.findUnique({
       where: { id: snippetId },
+      include: { files: { select: { filename: true, content: true } } },
     });
 
     if (!snippet) {
@@ -387,52 +583,78 @@ export const updateSnippet = async (req: Request, res: Response) => {
     }
 
     const validatedData = snippetSchema.parse(req.body);
-    
-    // Clean and validate tags
-    const cleanTags = validatedData.tags
-      .map(tag => tag.trim().toLowerCase())
-      .filter(tag => tag.length > 0 && tag.length <= 50)
-      .slice(0, 10); // Limit to 10 tags
-    
-    const updatedSnippet = await prisma.snippet.update({
-      where: { id: snippetId },
-      data: {
-        ...validatedData,
-        tags: cleanTags,
-        updatedAt: new Date(),
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            name: true,
-            avatar: true,
-            bio: true,
-          },
-        },
-        _count: {
-          select: {
-            likes: true,
-            comments: true,
-            bookmarks: true,
+
+    const publishState = resolvePublishState(validatedData, snippet);
+    if (publishState.error) {
+      return res.status(400).json({ error: publishState.error });
+    }
+
+    const screened = screenSnippetSecrets(validatedData, getSnippetFiles(validatedData));
+    if (screened.details) {
+      return res.status(400).json(secretsErrorBody(screened.details));
+    }
+    const { files } = screened;
+    const anchorRemap = await prepareSnippetAnchorRemap(snippetId, snippet.files, files);
+
+    // Replace the snippet's files and save the new state as an immutable revision
+    const updatedSnippet = await prisma.$transaction(async (tx) => {
+      await ensureBaselineRevision(tx, snippet);
+      const updated = await tx.snippet.update({
+        where: { id: snippetId },
+        data: {
+          ...buildSnippetData(validatedData, files),
+          ...publishState.state,
+          updatedAt: new Date(),
+          files: {
+            deleteMany: {},
+            create: files.map((file, position) => ({ ...file, position })),
           },
         },
-        // Include user interactions
-        ...(userId ? {
-          likes: {
-            where: { userId },
-            select: { id: true },
+        include: {
+          files: fileDetailInclude,
+          author: {
+            select: {
+              id: true,
+              username: true,
+              name: true,
+              avatar: true,
+              bio: true,
+            },
           },
-          bookmarks: {
-            where: { userId },
-            select: { id: true },
+          _count: {
+            select: {
+              likes: true,
+              comments: true,
+              bookmarks: true,
+              forks: true,
+            },
           },
-        } : {}),
-      },
+          // Include user interactions
+          ...(userId ? {
+            likes: {
+              where: { userId },
+              select: { id: true },
+            },
+            bookmarks: {
+              where: { userId },
+              select: { id: true },
+            },
+          } : {}),
+        },
+      });
+      await recordSnippetRevision(tx, updated, userId);
+      // Line comments follow their code, or are marked outdated when it changed
+      await remapSnippetAnchors(tx, snippetId, anchorRemap);
+      return updated;
     });
+    invalidateRender('snippet', snippetId);
+
+    // Publishing a draft or scheduled snippet by hand announces it like a new one
+    if (isNewlyPublished(updatedSnippet.status, snippet.status)) {
+      announceSnippet(updatedSnippet);
+    }
 
-    const updatedSnippetWithInteractions = updatedSnippet as SnippetWithDetails;
+    const updatedSnippetWithInteractions = updatedSnippet as SnippetFromList;
 
     // Format response
     const formattedSnippet = {
@@ -442,6 +664,7 @@ export const updateSnippet = async (req: Request, res: Response) => {
       likesCount: updatedSnippet._count.likes,
       commentsCount: updatedSnippet._count.comments,
       bookmarksCount: updatedSnippet._count.bookmarks,
+      forksCount: updatedSnippet._count.forks,
       // Remove the likes/bookmarks arrays from response
       likes: undefined,
       bookmarks: undefined,
@@ -488,6 +711,7 @@ export const deleteSnippet = async (req: Request, res: Response) => {
       prisma.comment.deleteMany({ where: { snippetId } }),
       prisma.snippet.delete({ where: { id: snippetId } }),
     ]);
+    invalidateRender('snippet', snippetId);
 
     res.json({ message: 'Snippet deleted successfully' });
   } catch (error) {
@@ -517,8 +741,10 @@ export const getUserSnippets = async (req: Request, res: Response) => {
 
     const where: any = { 
       authorId: user.id,
-      // Show private snippets only to the owner
-      ...(currentUserId === user.id ? {} : { isPublic: true }),
+      // Show unlisted and private snippets only to the owner; drafts are listed separately
+      ...(currentUserId === user.id
+        ? { status: { in: ['PUBLISHED', 'ARCHIVED'] } }
+        : { visibility: 'PUBLIC', status: 'PUBLISHED' }),
     };
 
     const [snippets, total] = await Promise.all([
@@ -536,11 +762,13 @@ export const getUserSnippets = async (req: Request, res: Response) => {
               avatar: true,
             },
           },
+          files: fileListInclude,
           _count: {
             select: {
               likes: true,
               comments: true,
               bookmarks: true,
+              forks: true,
             },
           },
           // Include user interactions if authenticated
@@ -567,6 +795,7 @@ export const getUserSnippets = async (req: Request, res: Response) => {
       likesCount: snippet._count.likes,
       commentsCount: snippet._count.comments,
       bookmarksCount: snippet._count.bookmarks,
+      forksCount: snippet._count.forks,
       // Remove the likes/bookmarks arrays from response
       likes: undefined,
       bookmarks: undefined,
@@ -607,7 +836,8 @@ export const getTrendingSnippets = async (req: Request, res: Response) => {
 
     const snippets = await prisma.snippet.findMany({
       where: {
-        isPublic: true,
+        visibility: 'PUBLIC',
+        status: 'PUBLISHED',
         createdAt: { gte: dateFilter },
       },
       include: {
@@ -624,6 +854,7 @@ export const getTrendingSnippets = async (req: Request, res: Response) => {
             likes: true,
             comments: true,
             bookmarks: true,
+            forks: true,
           },
         },
       },
@@ -641,6 +872,7 @@ export const getTrendingSnippets = async (req: Request, res: Response) => {
       likesCount: snippet._count.likes,
       commentsCount: snippet._count.comments,
       bookmarksCount: snippet._count.bookmarks,
+      forksCount: snippet._count.forks,
     }));
 
     res.json({ snippets: formattedSnippets });
@@ -649,3 +881,653 @@ export const getTrendingSnippets = async (req: Request, res: Response) => {
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+// Get a snippet's revision history
+export const getSnippetRevisions = async (req: Request, res: Response) => {
+  try {
+    const snippetId = req.params.id;
+    const userId = (req.user as any)?.id;
+
+    const snippet = await prisma.snippet.findUnique({
+      where: { id: snippetId },
+      select: { id: true, authorId: true, visibility: true, status: true },
+    });
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    // Content is left out of the listing; fetch a single revision to read it
+    const revisions = await prisma.snippetRevision.findMany({
+      where: { snippetId },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        description: true,
+        language: true,
+        tags: true,
+        createdAt: true,
+        editor: {
+          select: {
+            id: true,
+            username: true,
+            name: true,
+            avatar: true,
+          },
+        },
+      },
+    });
+
+    res.json({ revisions, total: revisions.length });
+  } catch (error) {
+    console.error('Error fetching snippet revisions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Get a single revision of a snippet
+export const getSnippetRevision = async (req: Request, res: Response) => {
+  try {
+    const { id: snippetId, revId } = req.params;
+    const userId = (req.user as any)?.id;
+
+    const snippet = await prisma.snippet.findUnique({
+      where: { id: snippetId },
+      select: { id: true, authorId: true, visibility: true, status: true },
+    });
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const revision = await prisma.snippetRevision.findFirst({
+      where: { id: revId, snippetId },
+      include: {
+        editor: {
+          select: {
+            id: true,
+            username: true,
+            name: true,
+            avatar: true,
+          },
+        },
+      },
+    });
+
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json(snippet.authorId === userId ? revision : redactRevision(revision));
+  } catch (error) {
+    console.error('Error fetching snippet revision:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Get a per-file, line-level diff between two revisions of a snippet
+export const diffSnippetRevisions = async (req: Request, res: Response) => {
+  try {
+    const snippetId = req.params.id;
+    const userId = (req.user as any)?.id;
+    const from = req.query.from as string;
+    const to = req.query.to as string;
+
+    if (!from || !to) {
+      return res.status(400).json({ error: 'Both "from" and "to" revision IDs are required' });
+    }
+
+    const snippet = await prisma.snippet.findUnique({
+      where: { id: snippetId },
+      select: { id: true, authorId: true, visibility: true, status: true },
+    });
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      prisma.snippetRevision.findFirst({ where: { id: from, snippetId } }),
+      prisma.snippetRevision.findFirst({ where: { id: to, snippetId } }),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    // Pair files up by filename; a file only present on one side diffs against empty content
+    const readable = snippet.authorId === userId ? <T>(revision: T) => revision : redactRevision;
+    const fromFiles = getRevisionFiles(readable(fromRevision));
+    const toFiles = getRevisionFiles(readable(toRevision));
+    const filenames = [...new Set([...fromFiles, ...toFiles].map(file => file.filename))];
+
+    const files = filenames.map(filename => {
+      const before = fromFiles.find(file => file.filename === filename);
+      const after = toFiles.find(file => file.filename === filename);
+      // Files over the diff limits are listed without their lines
+      const tooLarge = !canDiffLines(before?.content ?? '', after?.content ?? '');
+      const lines = tooLarge ? [] : diffLines(before?.content ?? '', after?.content ?? '');
+      return {
+        filename,
+        status: !before ? 'added' : !after ? 'removed' : before.content === after.content ? 'unchanged' : 'modified',
+        language: { from: before?.language ?? null, to: after?.language ?? null },
+        tooLarge,
+        stats: {
+          additions: lines.filter(line => line.type === 'added').length,
+          deletions: lines.filter(line => line.type === 'removed').length,
+        },
+        diff: tooLarge ? null : lines,
+      };
+    });
+
+    res.json({
+      from: { id: fromRevision.id, version: fromRevision.version, createdAt: fromRevision.createdAt },
+      to: { id: toRevision.id, version: toRevision.version, createdAt: toRevision.createdAt },
+      changes: {
+        title: fromRevision.title !== toRevision.title,
+        description: fromRevision.description !== toRevision.description,
+        language: fromRevision.language !== toRevision.language,
+        tags: fromRevision.tags.join(',') !== toRevision.tags.join(','),
+      },
+      stats: {
+        additions: files.reduce((sum, file) => sum + file.stats.additions, 0),
+        deletions: files.reduce((sum, file) => sum + file.stats.deletions, 0),
+      },
+      files,
+    });
+  } catch (error) {
+    console.error('Error diffing snippet revisions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Restore a snippet to a previous revision (send "redactSecrets": true to redact secrets it contains)
+export const restoreSnippetRevision = async (req: Request, res: Response) => {
+  try {
+    const { id: snippetId, revId } = req.params;
+    const userId = (req.user as any).id;
+
+    const snippet = await prisma.snippet.findUnique({
+      where: { id: snippetId },
+      include: { files: { select: { filename: true, content: true } } },
+    });
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (snippet.authorId !== userId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const revision = await prisma.snippetRevision.findFirst({
+      where: { id: revId, snippetId },
+    });
+
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    // The revision may have been recorded while the snippet was private, so it's screened like an edit
+    const revisionFiles = getRevisionFiles(revision);
+    const fieldName = (index: number) => `files.${index}.content`;
+    const secretCheck = applySecretPolicy(
+      Object.fromEntries(revisionFiles.map((file, index) => [fieldName(index), file.content])),
+      { isPublished: snippet.visibility !== 'PRIVATE', redact: req.body?.redactSecrets === true }
+    );
+    if (!secretCheck.ok) {
+      return res.status(400).json(secretsErrorBody(secretCheck.details));
+    }
+    const files = revisionFiles.map((file, index) => ({ ...file, content: secretCheck.fields[fieldName(index)] }));
+    const anchorRemap = await prepareSnippetAnchorRemap(snippetId, snippet.files, files);
+
+    // Restoring is itself an edit, so it gets a new revision rather than rewriting history
+    const restoredSnippet = await prisma.$transaction(async (tx) => {
+      await ensureBaselineRevision(tx, snippet);
+      const updated = await tx.snippet.update({
+        where: { id: snippetId },
+        data: {
+          title: revision.title,
+          description: revision.description,
+          content: files[0].content,
+          language: revision.language,
+          tags: revision.tags,
+          updatedAt: new Date(),
+          files: {
+            deleteMany: {},
+            create: files.map((file, position) => ({ ...file, position })),
+          },
+        },
+        include: {
+          files: fileDetailInclude,
+          author: {
+            select: {
+              id: true,
+              username: true,
+              name: true,
+              avatar: true,
+              bio: true,
+            },
+          },
+          _count: {
+            select: {
+              likes: true,
+              comments: true,
+              bookmarks: true,
+              forks: true,
+            },
+          },
+        },
+      });
+      await recordSnippetRevision(tx, updated, userId);
+      // Line comments follow their code, or are marked outdated when it changed
+      await remapSnippetAnchors(tx, snippetId, anchorRemap);
+      return updated;
+    });
+    invalidateRender('snippet', snippetId);
+
+    res.json({
+      ...restoredSnippet,
+      likesCount: restoredSnippet._count.likes,
+      commentsCount: restoredSnippet._count.comments,
+      bookmarksCount: restoredSnippet._count.bookmarks,
+      forksCount: restoredSnippet._count.forks,
+      restoredFromVersion: revision.version,
+    });
+  } catch (error) {
+    console.error('Error restoring snippet revision:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Fork a public snippet into the current user's account
+export const forkSnippet = async (req: Request, res: Response) => {
+  try {
+    const snippetId = req.params.id;
+    const userId = (req.user as any).id;
+
+    const original = await prisma.snippet.findUnique({
+      where: { id: snippetId },
+      include: { files: fileDetailInclude },
+    });
+
+    if (!original) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!isOpenToEveryone(original)) {
+      return res.status(403).json({ error: 'Cannot fork a private or unpublished snippet' });
+    }
+
+    // Copy the snippet and start its own revision history
+    const fork = await prisma.$transaction(async (tx) => {
+      const created = await tx.snippet.create({
+        data: {
+          title: original.title,
+          description: original.description,
+          content: original.content,
+          language: original.language,
+          tags: original.tags,
+          // Forks of unlisted snippets stay unlisted so they don't expose the original
+          visibility: original.visibility,
+          authorId: userId,
+          forkedFromId: original.id,
+          files: {
+            create: original.files.map(({ filename, language, content }, position) => ({
+              filename,
+              language,
+              content,
+              position,
+            })),
+          },
+        },
+        include: {
+          files: fileDetailInclude,
+          author: {
+            select: {
+              id: true,
+              username: true,
+              name: true,
+              avatar: true,
+              bio: true,
+            },
+          },
+          forkedFrom: {
+            select: {
+              id: true,
+              title: true,
+              author: {
+                select: {
+                  id: true,
+                  username: true,
+                  name: true,
+                  avatar: true,
+                },
+              },
+            },
+          },
+        },
+      });
+      await recordSnippetRevision(tx, created, userId);
+      return created;
+    });
+
+    // --- Real-time Logic ---
+    if (fork.visibility === 'PUBLIC') {
+      emitToFollowers(userId, 'new-snippet', fork);
+    }
+
+    await notificationService.createNotification({
+      recipientId: original.authorId,
+      senderId: userId,
+      type: 'FORK',
+      snippetId: original.id,
+    });
+
+    res.status(201).json({
+      ...fork,
+      isLiked: false,
+      isBookmarked: false,
+      likesCount: 0,
+      commentsCount: 0,
+      bookmarksCount: 0,
+      forksCount: 0,
+    });
+  } catch (error) {
+    console.error('Error forking snippet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Get the public forks of a snippet
+export const getSnippetForks = async (req: Request, res: Response) => {
+  try {
+    const snippetId = req.params.id;
+    const userId = (req.user as any)?.id;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const snippet = await prisma.snippet.findUnique({
+      where: { id: snippetId },
+      select: { id: true, authorId: true, visibility: true, status: true },
+    });
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const where = { forkedFromId: snippetId, visibility: 'PUBLIC' as const, status: 'PUBLISHED' as const };
+
+    const [forks, total] = await Promise.all([
+      prisma.snippet.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              name: true,
+              avatar: true,
+            },
+          },
+          _count: {
+            select: {
+              likes: true,
+              comments: true,
+              bookmarks: true,
+              forks: true,
+            },
+          },
+        },
+      }),
+      prisma.snippet.count({ where }),
+    ]);
+
+    const formattedForks = forks.map(fork => ({
+      ...fork,
+      likesCount: fork._count.likes,
+      commentsCount: fork._count.comments,
+      bookmarksCount: fork._count.bookmarks,
+      forksCount: fork._count.forks,
+    }));
+
+    res.json({
+      forks: formattedForks,
+      total,
+      pages: Math.ceil(total / limit),
+      currentPage: page,
+      hasMore: skip + limit < total,
+    });
+  } catch (error) {
+    console.error('Error fetching snippet forks:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Loads a snippet with its files for the raw/download/embed endpoints
+const findSnippetWithFiles = (snippetId: string) =>
+  prisma.snippet.findUnique({
+    where: { id: snippetId },
+    include: {
+      author: { select: { username: true } },
+      files: fileDetailInclude,
+    },
+  });
+
+// Picks the requested file (?file=<filename>) or the snippet's first file
+const selectSnippetFile = (files: { filename: string; language: string; content: string }[], filename?: string) =>
+  filename ? files.find(file => file.filename === filename) : files[0];
+
+// Get a snippet file's code as plain text
+export const getSnippetRaw = async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any)?.id;
+    const snippet = await findSnippetWithFiles(req.params.id);
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const file = selectSnippetFile(snippet.files, req.query.file as string);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const filename = withFileExtension(file.filename, file.language);
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error fetching raw snippet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Download a snippet file as an attachment
+export const downloadSnippet = async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any)?.id;
+    const snippet = await findSnippetWithFiles(req.params.id);
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const file = selectSnippetFile(snippet.files, req.query.file as string);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    res.attachment(withFileExtension(file.filename, file.language));
+    res.type('text/plain; charset=utf-8');
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error downloading snippet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Get a self-contained embed for a snippet: an HTML page for iframes, or ?format=js for a <script> tag
+export const getSnippetEmbed = async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any)?.id;
+    const snippet = await findSnippetWithFiles(req.params.id);
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const fragment = renderSnippetEmbed(snippet);
+
+    // Embeds are meant to be loaded from other sites, so relax the framing/CORP headers set by helmet
+    res.removeHeader('X-Frame-Options');
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+    if (req.query.format === 'js') {
+      // Escape "<" so the markup can't close the surrounding <script> tag
+      const markup = JSON.stringify(fragment).replace(/</g, '\\u003c');
+      res.type('application/javascript; charset=utf-8');
+      return res.send(`document.write(${markup});`);
+    }
+
+    res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors *");
+    res.type('html');
+    res.send(`<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(snippet.title)}</title></head><body style="margin:0">${fragment}</body></html>`);
+  } catch (error) {
+    console.error('Error rendering snippet embed:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Run a snippet file in the sandbox and return its output
+export const runSnippet = async (req: Request, res: Response) => {
+  try {
+    const userId = (req.user as any).id;
+    const { file: filename, stdin, stream } = runSnippetSchema.parse(req.body ?? {});
+    const snippet = await findSnippetWithFiles(req.params.id);
+
+    if (!snippet) {
+      return res.status(404).json({ error: 'Snippet not found' });
+    }
+
+    if (!(await canViewContent('snippet', snippet, userId, req.query.token))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const file = selectSnippetFile(snippet.files, filename);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const runtime = getSandboxRuntime(file.language);
+    if (!runtime) {
+      return res.status(400).json({
+        error: `Running ${file.language} snippets is not supported`,
+        supportedLanguages: getSupportedLanguages(),
+      });
+    }
+
+    // Only the caller receives the output live, in the room they joined with `join-user-room`. The
+    // snippet's content room is open to anyone with its ID, private snippets included.
+    const room = stream ? getIO().to(userId) : null;
+
+    const result = await runCode(runtime, file.content, {
+      stdin,
+      onOutput: room ? (chunk) => room.emit('snippet-run-output', { snippetId: snippet.id, ...chunk }) : undefined,
+    });
+
+    const response = { snippetId: snippet.id, filename: file.filename, ...result };
+    room?.emit('snippet-run-complete', response);
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      });
+    }
+    if (error instanceof SandboxBusyError) {
+      return res.status(429).json({ error: error.message });
+    }
+    if (error instanceof SandboxUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error('Error running snippet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Detect the language of submitted code and suggest tags for it
+export const analyzeSnippet = async (req: Request, res: Response) => {
+  try {
+    const data = analyzeSnippetSchema.parse(req.body);
+    const files = data.files ?? [{ filename: data.filename, content: data.content! }];
+
+    const analyzedFiles = files.map(file => ({
+      filename: file.filename ?? null,
+      ...detectLanguage(file.content, file.filename),
+    }));
+
+    res.json({
+      // The first file decides the snippet's language, as it does on save
+      language: analyzedFiles[0].language,
+      confidence: analyzedFiles[0].confidence,
+      alternatives: analyzedFiles[0].alternatives,
+      files: analyzedFiles,
+      suggestedTags: suggestTags(files.map((file, index) => ({
+        language: analyzedFiles[index].language,
+        content: file.content,
+      }))),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        details: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message,
+        })),
+      });
+    }
+    console.error('Error analyzing snippet:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -64,6 +64,27 @@ export const upload = multer({
   },
 });
 
+// Markdown documents to import as docs: kept in memory, since only their text is stored
+const markdownFileFilter = (req: any, file: any, cb: any) => {
+  const allowedTypes = ['text/markdown', 'text/x-markdown', 'text/plain', 'application/octet-stream'];
+  const extension = path.extname(file.originalname).toLowerCase();
+
+  if (['.md', '.markdown'].includes(extension) && allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Allowed: .md or .markdown files'), false);
+  }
+};
+
+export const markdownUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: markdownFileFilter,
+  limits: {
+    fileSize: 1024 * 1024, // 1MB
+    files: 1,
+  },
+});
+
 export const uploadFiles = async (req: Request, res: Response) => {
   try {
     const { type } = req.params;
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/db';
 import { asyncHandler } from '../utils/asyncHandler';
+import { getUserReputation } from '../services/reputationService';
 
 // Get user profile by username
 export const getUserProfile = asyncHandler(async (req: Request, res: Response) => {
@@ -57,9 +58,12 @@ export const getUserProfile = asyncHandler(async (req: Request, res: Response) =
         // You can also check for block status here if you have a block model
     }
 
+    const reputation = await getUserReputation(user.id);
+
     const { preferences, ...userProfileData } = user;
     const responsePayload = {
         user: userProfileData,
+        reputation,
         isFollowing,
         isBlockedByMe,
         followers: [],
@@ -143,6 +147,12 @@ export const getUserContent = asyncHandler(async (req: Request, res: Response) =
         authorId: user.id,
     };
 
+    // Unlisted and private snippets/docs are only listed for their owner; drafts and
+    // scheduled items have their own listing
+    const visibilityFilter = user.id === currentUserId
+        ? { status: { in: ['PUBLISHED' as const, 'ARCHIVED' as const] } }
+        : { visibility: 'PUBLIC' as const, status: 'PUBLISHED' as const };
+
     let content = [];
     let total = 0;
 
@@ -157,13 +167,13 @@ export const getUserContent = asyncHandler(async (req: Request, res: Response) =
 
     if (type === 'snippets') {
         [content, total] = await prisma.$transaction([
-            prisma.snippet.findMany({ where, skip, take: limitNum, orderBy: { createdAt: 'desc' }, include: includeOptions }),
-            prisma.snippet.count({ where }),
+            prisma.snippet.findMany({ where: { ...where, ...visibilityFilter }, skip, take: limitNum, orderBy: { createdAt: 'desc' }, include: includeOptions }),
+            prisma.snippet.count({ where: { ...where, ...visibilityFilter } }),
         ]);
     } else if (type === 'docs') {
         [content, total] = await prisma.$transaction([
-            prisma.doc.findMany({ where, skip, take: limitNum, orderBy: { createdAt: 'desc' }, include: includeOptions }),
-            prisma.doc.count({ where }),
+            prisma.doc.findMany({ where: { ...where, ...visibilityFilter }, skip, take: limitNum, orderBy: { createdAt: 'desc' }, include: includeOptions }),
+            prisma.doc.count({ where: { ...where, ...visibilityFilter } }),
         ]);
     } else if (type === 'bugs') {
         [content, total] = await prisma.$transaction([
@@ -181,4 +191,51 @@ export const getUserContent = asyncHandler(async (req: Request, res: Response) =
         pages: Math.ceil(total / limitNum),
         currentPage: pageNum,
     });
-});
\ No newline at end of file
+});
+// Get the current user's drafts and scheduled snippets/docs
+export const getMyDrafts = asyncHandler(async (req: Request, res: Response) => {
+    const { type = 'all' } = req.query;
+    const userId = (req.user as any).id;
+
+    if (!['all', 'snippets', 'docs'].includes(type as string)) {
+        res.status(400);
+        throw new Error('Invalid content type');
+    }
+
+    const where = {
+        authorId: userId,
+        status: { in: ['DRAFT' as const, 'SCHEDULED' as const] },
+    };
+
+    // Scheduled items come first, soonest to publish at the top
+    const orderBy = [{ publishAt: { sort: 'asc' as const, nulls: 'last' as const } }, { updatedAt: 'desc' as const }];
+
+    const [snippets, docs] = await Promise.all([
+        type === 'docs' ? [] : prisma.snippet.findMany({
+            where,
+            orderBy,
+            include: {
+                files: { orderBy: { position: 'asc' }, select: { id: true, filename: true, language: true, position: true } },
+            },
+        }),
+        type === 'snippets' ? [] : prisma.doc.findMany({
+            where,
+            orderBy,
+            select: {
+                id: true,
+                title: true,
+                description: true,
+                coverImage: true,
+                tags: true,
+                visibility: true,
+                status: true,
+                publishAt: true,
+                seriesId: true,
+                createdAt: true,
+                updatedAt: true,
+            },
+        }),
+    ]);
+
+    res.json({ snippets, docs });
+});
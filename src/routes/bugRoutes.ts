@@ -5,22 +5,48 @@ import {
     createBug, 
     updateBugStatus, 
     deleteBug,
+    getBugLifetime,
+    extendBug,
+    acceptAnswer,
+    unacceptAnswer,
+    getBugTimeline,
+    addBugAssignee,
+    removeBugAssignee,
+    watchBug,
+    unwatchBug,
+    checkDuplicateBugs,
+    mergeBug,
     addBugView,
-    getBugViews
+    getBugViews,
+    getBugViewSummary
 } from '../controllers/bugController';
 import { requireAuth } from '../middlewares/authMiddleware';
 
 const router = Router();
 
 router.get('/', getAllBugs);
+router.get('/lifetime', getBugLifetime);
+router.post('/duplicates', requireAuth, checkDuplicateBugs);
 router.get('/:id', getBugById);
 router.post('/', requireAuth, createBug);
 router.patch('/:id/status', requireAuth, updateBugStatus);
+router.post('/:id/extend', requireAuth, extendBug);
+router.put('/:id/accepted-answer', requireAuth, acceptAnswer);
+router.delete('/:id/accepted-answer', requireAuth, unacceptAnswer);
+router.get('/:id/timeline', getBugTimeline);
+
+// Triage: assignees and watchers
+router.post('/:id/assignees', requireAuth, addBugAssignee);
+router.delete('/:id/assignees/:userId', requireAuth, removeBugAssignee);
+router.post('/:id/watch', requireAuth, watchBug);
+router.delete('/:id/watch', requireAuth, unwatchBug);
+router.post('/:id/merge', requireAuth, mergeBug);
 router.delete('/:id', requireAuth, deleteBug);
 
 // Routes for bug views
-router.post('/:bugId/view', requireAuth, addBugView);
+router.post('/:bugId/view', addBugView);
 router.get('/:bugId/views', requireAuth, getBugViews);
+router.get('/:bugId/views/summary', requireAuth, getBugViewSummary);
 
 
 export default router;
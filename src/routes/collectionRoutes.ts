@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import {
+    getCollections,
+    getUserCollections,
+    getCollectionById,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    addCollectionItem,
+    removeCollectionItem,
+    reorderCollectionItems,
+    toggleCollectionFollow,
+} from '../controllers/collectionController';
+import { createShareLink, getShareLinks, revokeShareLink } from '../controllers/shareController';
+import { requireAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+router.get('/', getCollections);
+router.get('/user/:username', getUserCollections);
+router.get('/:id', getCollectionById);
+router.post('/', requireAuth, createCollection);
+router.put('/:id', requireAuth, updateCollection);
+router.delete('/:id', requireAuth, deleteCollection);
+
+// Items
+router.post('/:id/items', requireAuth, addCollectionItem);
+router.put('/:id/items/order', requireAuth, reorderCollectionItems);
+router.delete('/:id/items/:itemId', requireAuth, removeCollectionItem);
+
+// Following
+router.post('/:id/follow', requireAuth, toggleCollectionFollow);
+
+// Share links for private collections
+router.post('/:id/share-links', requireAuth, createShareLink('collection'));
+router.get('/:id/share-links', requireAuth, getShareLinks('collection'));
+router.delete('/:id/share-links/:linkId', requireAuth, revokeShareLink('collection'));
+
+export default router;
@@ -1,5 +1,18 @@
 import { Router } from 'express';
-import { getAllDocs, getDocById, createDoc, updateDoc, deleteDoc } from '../controllers/docController';
+import {
+    getAllDocs,
+    getDocById,
+    createDoc,
+    updateDoc,
+    deleteDoc,
+    getDocCoAuthors,
+    addDocCoAuthor,
+    removeDocCoAuthor,
+    importDoc,
+    exportDoc,
+} from '../controllers/docController';
+import { markdownUpload } from '../controllers/uploadController';
+import { createShareLink, getShareLinks, revokeShareLink } from '../controllers/shareController';
 import { requireAuth } from '../middlewares/authMiddleware';
 
 const router = Router();
@@ -7,7 +20,22 @@ const router = Router();
 router.get('/', getAllDocs);
 router.get('/:id', getDocById);
 router.post('/', requireAuth, createDoc);
+
+// Import a Markdown file with front-matter; export as Markdown or standalone HTML
+router.post('/import', requireAuth, markdownUpload.single('file'), importDoc);
+router.get('/:id/export', exportDoc);
+
 router.put('/:id', requireAuth, updateDoc);
 router.delete('/:id', requireAuth, deleteDoc);
 
+// Co-authors, who can edit the doc alongside its author (live over Socket.IO, or through PUT)
+router.get('/:id/co-authors', getDocCoAuthors);
+router.post('/:id/co-authors', requireAuth, addDocCoAuthor);
+router.delete('/:id/co-authors/:userId', requireAuth, removeDocCoAuthor);
+
+// Share links for private docs
+router.post('/:id/share-links', requireAuth, createShareLink('doc'));
+router.get('/:id/share-links', requireAuth, getShareLinks('doc'));
+router.delete('/:id/share-links/:linkId', requireAuth, revokeShareLink('doc'));
+
 export default router;
\ No newline at end of file
@@ -1,10 +1,20 @@
 import { Router } from 'express';
-import { toggleFollow, checkFollow, getFollowers, getFollowing, getSuggestedUsers } from '../controllers/followController';
+import {
+  toggleFollow,
+  checkFollow,
+  getFollowers,
+  getFollowing,
+  getSuggestedUsers,
+  toggleTagFollow,
+  getFollowedTags,
+} from '../controllers/followController';
 import { requireAuth } from '../middlewares/authMiddleware';
 
 const router = Router();
 
 router.get('/suggestions', requireAuth, getSuggestedUsers);
+router.get('/tags', requireAuth, getFollowedTags);
+router.post('/tags/:tag', requireAuth, toggleTagFollow);
 router.post('/:userId', requireAuth, toggleFollow);
 router.get('/check/:userId', requireAuth, checkFollow);
 router.get('/:userId/followers', getFollowers);
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import {
+    getUserSeries,
+    getSeriesById,
+    createSeries,
+    updateSeries,
+    deleteSeries,
+    addSeriesChapter,
+    removeSeriesChapter,
+    reorderSeries,
+} from '../controllers/seriesController';
+import { requireAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+router.get('/user/:username', getUserSeries);
+router.get('/:id', getSeriesById);
+router.post('/', requireAuth, createSeries);
+router.put('/:id', requireAuth, updateSeries);
+router.delete('/:id', requireAuth, deleteSeries);
+
+// Chapters
+router.post('/:id/docs', requireAuth, addSeriesChapter);
+router.delete('/:id/docs/:docId', requireAuth, removeSeriesChapter);
+router.put('/:id/order', requireAuth, reorderSeries);
+
+export default router;
@@ -1,13 +1,65 @@
 import { Router } from 'express';
-import { getAllSnippets, getSnippetById, createSnippet, updateSnippet, deleteSnippet } from '../controllers/snippetController';
+import rateLimit from 'express-rate-limit';
+import {
+  getAllSnippets,
+  getSnippetById,
+  createSnippet,
+  updateSnippet,
+  deleteSnippet,
+  getSnippetRevisions,
+  getSnippetRevision,
+  diffSnippetRevisions,
+  restoreSnippetRevision,
+  forkSnippet,
+  getSnippetForks,
+  getSnippetRaw,
+  downloadSnippet,
+  getSnippetEmbed,
+  runSnippet,
+  analyzeSnippet,
+} from '../controllers/snippetController';
+import { createShareLink, getShareLinks, revokeShareLink } from '../controllers/shareController';
 import { requireAuth } from '../middlewares/authMiddleware';
 
 const router = Router();
 
+// Each run occupies one of the sandbox's few slots, so users get a small budget of their own
+const runLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: parseInt(process.env.SANDBOX_RUNS_PER_MINUTE || '5'),
+  keyGenerator: (req) => (req.user as any).id,
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 router.get('/', getAllSnippets);
+router.post('/analyze', requireAuth, analyzeSnippet);
 router.get('/:id', getSnippetById);
 router.post('/', requireAuth, createSnippet);
 router.put('/:id', requireAuth, updateSnippet);
 router.delete('/:id', requireAuth, deleteSnippet);
 
-export default router;
\ No newline at end of file
+// Raw code, downloads and embeds
+router.get('/:id/raw', getSnippetRaw);
+router.get('/:id/download', downloadSnippet);
+router.get('/:id/embed', getSnippetEmbed);
+
+// Code execution
+router.post('/:id/run', requireAuth, runLimiter, runSnippet);
+
+// Revision history
+router.get('/:id/revisions', getSnippetRevisions);
+router.get('/:id/revisions/diff', diffSnippetRevisions);
+router.get('/:id/revisions/:revId', getSnippetRevision);
+router.post('/:id/revisions/:revId/restore', requireAuth, restoreSnippetRevision);
+
+// Forks
+router.post('/:id/fork', requireAuth, forkSnippet);
+router.get('/:id/forks', getSnippetForks);
+
+// Share links for private snippets
+router.post('/:id/share-links', requireAuth, createShareLink('snippet'));
+router.get('/:id/share-links', requireAuth, getShareLinks('snippet'));
+router.delete('/:id/share-links/:linkId', requireAuth, revokeShareLink('snippet'));
+
+export default router;
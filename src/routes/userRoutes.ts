@@ -1,9 +1,12 @@
 import { Router } from 'express';
-import { getUserProfile, updateUserProfile, getUserContent } from '../controllers/userController';
+import { getUserProfile, updateUserProfile, getUserContent, getMyDrafts } from '../controllers/userController';
 import { requireAuth } from '../middlewares/authMiddleware';
 
 const router = Router();
 
+// Get your drafts and scheduled content (auth required)
+router.get('/me/drafts', requireAuth, getMyDrafts);
+
 // Get user profile by username
 router.get('/:username', getUserProfile);
 
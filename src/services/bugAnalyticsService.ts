@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { prisma } from '../config/db';
+
+// Repeat views by the same viewer within the same window count once. Windows are fixed
+// 30-minute slots, so the database's unique (bug, viewer, window) constraint can enforce it.
+const VIEW_WINDOW_MS = 30 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Viewer = { userId?: string; ip?: string; userAgent?: string };
+
+/**
+ * Identifies a viewer without storing who they are: signed-in users by their id, anonymous
+ * visitors by their IP address and user agent, so no session has to be created for them.
+ * Keyed with the session secret so the hash can't be reversed by trying addresses.
+ */
+const hashViewer = ({ userId, ip, userAgent }: Viewer) =>
+    crypto
+        .createHmac('sha256', process.env.SESSION_SECRET || 'your-secret-key')
+        .update(userId ? `user:${userId}` : `anonymous:${ip ?? ''}\n${userAgent ?? ''}`)
+        .digest('hex');
+
+/**
+ * Records a view of a bug. Signed-in viewers are also added to the bug's viewer list.
+ * @returns Whether the view was counted, i.e. the viewer hadn't viewed it in the current window.
+ */
+export const recordBugView = async (bugId: string, viewer: Viewer) => {
+    const viewerHash = hashViewer(viewer);
+
+    if (viewer.userId) {
+        await prisma.bugView.upsert({
+            where: { bugId_userId: { bugId, userId: viewer.userId } },
+            update: {},
+            create: { bugId, userId: viewer.userId },
+        });
+    }
+
+    // A view already recorded in this window makes the insert a no-op, even when two
+    // requests race
+    const { count } = await prisma.bugViewEvent.createMany({
+        data: { bugId, viewerHash, viewWindow: Math.floor(Date.now() / VIEW_WINDOW_MS), userId: viewer.userId ?? null },
+        skipDuplicates: true,
+    });
+    return count > 0;
+};
+
+/**
+ * Summarizes a bug's views: all-time totals, and views and unique viewers per day (UTC) over
+ * the last `days` days, oldest first and including days without views.
+ */
+export const getBugViewSummary = async (bugId: string, days: number) => {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const since = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+    const [totalViews, anonymousViews, viewers, signedInViewers, recentViews] = await Promise.all([
+        prisma.bugViewEvent.count({ where: { bugId } }),
+        prisma.bugViewEvent.count({ where: { bugId, userId: null } }),
+        prisma.bugViewEvent.groupBy({ by: ['viewerHash'], where: { bugId } }),
+        prisma.bugView.count({ where: { bugId } }),
+        prisma.bugViewEvent.findMany({
+            where: { bugId, createdAt: { gte: since } },
+            select: { viewerHash: true, createdAt: true },
+        }),
+    ]);
+
+    const daily = Array.from({ length: days }, (_, index) => ({
+        date: new Date(since.getTime() + index * DAY_MS).toISOString().slice(0, 10),
+        views: 0,
+        viewers: new Set<string>(),
+    }));
+    for (const view of recentViews) {
+        const day = daily[Math.floor((view.createdAt.getTime() - since.getTime()) / DAY_MS)];
+        if (!day) continue;
+        day.views++;
+        day.viewers.add(view.viewerHash);
+    }
+
+    return {
+        totalViews,
+        uniqueViewers: viewers.length,
+        signedInViewers,
+        anonymousViews,
+        daily: daily.map(({ date, views, viewers }) => ({ date, views, uniqueViewers: viewers.size })),
+    };
+};
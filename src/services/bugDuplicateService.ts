@@ -0,0 +1,244 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { isBugArchived } from './bugLifecycleService';
+import { recordStatusChange } from './bugTriageService';
+import { getFrameKey, ParsedStackTrace, parseStackTrace, StackFrame } from './stackTraceService';
+
+export type BugText = {
+    title: string;
+    description?: string;
+    content?: string;
+};
+
+export type DuplicateCandidate = {
+    id: string;
+    title: string;
+    description: string;
+    status: string;
+    severity: string;
+    createdAt: Date;
+    score: number;
+};
+
+export class BugMergeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BugMergeError';
+    }
+}
+
+type ErrorSignals = {
+    message: string;
+    fingerprint: string;
+    frames: Set<string>;
+};
+
+// How far back to look for duplicates, and how many recent bugs to compare against
+const CANDIDATE_WINDOW_DAYS = 7;
+const MAX_CANDIDATES = 300;
+
+const MIN_SCORE = 0.35;
+const MAX_SUGGESTIONS = 5;
+
+// Words that say nothing about which bug it is
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'when', 'from', 'this', 'that', 'not', 'but', 'are', 'was', 'were',
+    'after', 'before', 'into', 'does', 'doesn', 'don', 'can', 'cannot', 'can\'t', 'won', 'have', 'has',
+    'get', 'getting', 'got', 'use', 'using', 'how', 'why', 'what', 'any', 'all', 'some', 'our', 'your',
+    'error', 'bug', 'issue', 'problem', 'fails', 'failed', 'failing', 'broken', 'work', 'working', 'works',
+]);
+
+const tokenize = (text: string) =>
+    new Set(
+        text
+            .toLowerCase()
+            .split(/[^a-z0-9_$']+/)
+            .filter(word => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    );
+
+// Drops the parts of an error message that change between occurrences: numbers, ids, quoted values
+const normalizeMessage = (message: string) =>
+    message
+        .toLowerCase()
+        .replace(/(["'`]).*?\1/g, '""')
+        .replace(/\b0x[0-9a-f]+\b|\b[0-9a-f]{8,}\b|\d+/g, '#')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * What identifies a crash in a bug's parsed stack trace, normalized so the same failure
+ * reported twice produces the same signals.
+ */
+const toErrorSignals = (trace: Pick<ParsedStackTrace, 'errorType' | 'message' | 'fingerprint' | 'frames'>): ErrorSignals => ({
+    message: `${trace.errorType}: ${normalizeMessage(trace.message ?? '')}`,
+    fingerprint: trace.fingerprint,
+    frames: new Set(trace.frames.map(getFrameKey)),
+});
+
+// Reads the trace stored with an existing bug by getStackTraceFields.
+const storedErrorSignals = (bug: {
+    errorType: string | null;
+    errorMessage: string | null;
+    errorFingerprint: string | null;
+    stackTrace: Prisma.JsonValue;
+}) => {
+    if (!bug.errorType || !bug.errorFingerprint) return null;
+    const frames = (bug.stackTrace as { frames?: StackFrame[] } | null)?.frames ?? [];
+    return toErrorSignals({ errorType: bug.errorType, message: bug.errorMessage, fingerprint: bug.errorFingerprint, frames });
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const item of a) {
+        if (b.has(item)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Scores how likely two bug reports describe the same problem, from 0 to 1. Titles weigh
+ * most among the text; when both reports include a stack trace, the same crash or error
+ * message, or a similar trace, counts for even more.
+ */
+const scoreDuplicate = (
+    bug: BugText,
+    errors: ErrorSignals | null,
+    other: Omit<BugText, 'content'>,
+    otherErrors: ErrorSignals | null
+) => {
+    const titleScore = jaccard(tokenize(bug.title), tokenize(other.title));
+    const textScore = jaccard(
+        tokenize(`${bug.title} ${bug.description ?? ''}`),
+        tokenize(`${other.title} ${other.description ?? ''}`)
+    );
+
+    if (!errors || !otherErrors) {
+        return 0.6 * titleScore + 0.4 * textScore;
+    }
+
+    const sameError = errors.fingerprint === otherErrors.fingerprint || errors.message === otherErrors.message;
+    const errorScore = sameError ? 1 : jaccard(errors.frames, otherErrors.frames);
+    return 0.35 * titleScore + 0.25 * textScore + 0.4 * errorScore;
+};
+
+/**
+ * Finds active bugs reported recently that likely describe the same problem, best match first.
+ * @param {BugText} bug - The report being written, or an existing bug's text.
+ * @param {string} [excludeId] - A bug to leave out, e.g. the one being compared.
+ * @param {ParsedStackTrace | null} [trace] - The report's trace when already parsed; otherwise read from its content.
+ */
+export const findDuplicateBugs = async (
+    bug: BugText,
+    excludeId?: string,
+    trace: ParsedStackTrace | null = parseStackTrace(bug.content ?? '')
+): Promise<DuplicateCandidate[]> => {
+    const now = new Date();
+    const candidates = await prisma.bug.findMany({
+        where: {
+            expiresAt: { gt: now },
+            createdAt: { gte: new Date(now.getTime() - CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+            ...(excludeId ? { id: { not: excludeId } } : {}),
+        },
+        select: {
+            id: true, title: true, description: true, status: true, severity: true, createdAt: true,
+            errorType: true, errorMessage: true, errorFingerprint: true, stackTrace: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_CANDIDATES,
+    });
+
+    const errors = trace && toErrorSignals(trace);
+
+    return candidates
+        .map(({ errorType, errorMessage, errorFingerprint, stackTrace, ...candidate }) => {
+            const otherErrors = storedErrorSignals({ errorType, errorMessage, errorFingerprint, stackTrace });
+            return {
+                ...candidate,
+                score: Math.round(scoreDuplicate(bug, errors, candidate, otherErrors) * 100) / 100,
+            };
+        })
+        .filter(candidate => candidate.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SUGGESTIONS);
+};
+
+/**
+ * Merges a duplicate bug into the canonical one: its comments, likes, bookmarks, views and
+ * view analytics move over (a user's like, bookmark or view already on the canonical bug is
+ * kept instead of theirs on the duplicate), and the duplicate is closed, archived and left
+ * pointing at the canonical bug so requests for it can be redirected.
+ * @param {{ id: string }} source - The duplicate bug.
+ * @param {string} targetId - The canonical bug.
+ * @param {string} actorId - The user merging the bugs, recorded in the duplicate's timeline.
+ * @returns How many of each were moved.
+ * @throws {BugMergeError} When either bug was merged in the meantime, or the target is archived.
+ */
+export const mergeBug = (source: { id: string }, targetId: string, actorId: string) =>
+    prisma.$transaction(async (tx) => {
+        // Lock both bugs in a fixed order, so merges of the same bugs (even A→B and B→A) run
+        // one after the other and each sees what the previous one did
+        await tx.$queryRaw`SELECT id FROM bugs WHERE id IN (${source.id}, ${targetId}) ORDER BY id FOR UPDATE`;
+
+        const target = await tx.bug.findUnique({ where: { id: targetId }, select: { mergedIntoId: true, expiresAt: true } });
+        if (!target || target.mergedIntoId || isBugArchived(target)) {
+            throw new BugMergeError('Target bug has been merged into another bug or archived');
+        }
+
+        const now = new Date();
+        const duplicate = await tx.bug.findUnique({ where: { id: source.id }, select: { status: true } });
+        const claimed = await tx.bug.updateMany({
+            where: { id: source.id, mergedIntoId: null },
+            data: { mergedIntoId: targetId, mergedAt: now },
+        });
+        if (!duplicate || claimed.count === 0) {
+            throw new BugMergeError('Bug has already been merged');
+        }
+
+        // Drop what would clash with the unique (user, bug) constraints on the canonical bug
+        const onTarget = { where: { bugId: targetId }, select: { userId: true } };
+        const userIds = (rows: { userId: string }[]) => ({ in: rows.map(row => row.userId) });
+
+        const likeUsers = userIds(await tx.like.findMany(onTarget));
+        const bookmarkUsers = userIds(await tx.bookmark.findMany(onTarget));
+        const viewUsers = userIds(await tx.bugView.findMany(onTarget));
+        await tx.like.deleteMany({ where: { bugId: source.id, userId: likeUsers } });
+        await tx.bookmark.deleteMany({ where: { bugId: source.id, userId: bookmarkUsers } });
+        await tx.bugView.deleteMany({ where: { bugId: source.id, userId: viewUsers } });
+        // and the unique (bug, viewer, window) constraint on view analytics
+        await tx.$executeRaw`
+            DELETE FROM bug_view_events duplicate
+            USING bug_view_events canonical
+            WHERE duplicate."bugId" = ${source.id}
+              AND canonical."bugId" = ${targetId}
+              AND duplicate."viewerHash" = canonical."viewerHash"
+              AND duplicate."viewWindow" = canonical."viewWindow"`;
+
+        const move = { where: { bugId: source.id }, data: { bugId: targetId } };
+        const comments = await tx.comment.updateMany(move);
+        const likes = await tx.like.updateMany(move);
+        const bookmarks = await tx.bookmark.updateMany(move);
+        const views = await tx.bugView.updateMany(move);
+        await tx.bugViewEvent.updateMany(move);
+
+        if (duplicate.status !== 'CLOSED') {
+            await recordStatusChange(tx, { bugId: source.id, actorId, fromStatus: duplicate.status, toStatus: 'CLOSED' });
+        }
+        await tx.bug.update({
+            where: { id: source.id },
+            data: {
+                status: 'CLOSED',
+                // Its accepted answer, if any, moved with the comments
+                acceptedAnswerId: null,
+                expiresAt: now,
+                archivedAt: now,
+            },
+        });
+
+        return {
+            comments: comments.count,
+            likes: likes.count,
+            bookmarks: bookmarks.count,
+            views: views.count,
+        };
+    });
@@ -0,0 +1,81 @@
+import { prisma } from '../config/db';
+import { getIO } from '../socket';
+import { createNotification } from './notificationService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const readHours = (value: string | undefined, fallback: number) => {
+    const hours = parseFloat(value || '');
+    return hours > 0 ? hours : fallback;
+};
+
+/**
+ * How long a bug may stay OPEN without comments before it's escalated, by severity
+ * (`BUG_ESCALATION_CRITICAL_HOURS`, default 1; `BUG_ESCALATION_HIGH_HOURS`, default 6).
+ */
+const getEscalationDelays = () => ({
+    CRITICAL: readHours(process.env.BUG_ESCALATION_CRITICAL_HOURS, 1) * HOUR_MS,
+    HIGH: readHours(process.env.BUG_ESCALATION_HIGH_HOURS, 6) * HOUR_MS,
+});
+
+// Tells everyone following one of the bug's tags, except its author.
+const notifyTagFollowers = async (bug: { id: string; authorId: string; tags: string[] }) => {
+    if (bug.tags.length === 0) return;
+
+    const followers = await prisma.tagFollow.findMany({
+        where: { tag: { in: bug.tags.map(tag => tag.toLowerCase()) } },
+        select: { userId: true },
+        distinct: ['userId'],
+    });
+
+    await Promise.all(followers.map(follower =>
+        createNotification({
+            recipientId: follower.userId,
+            senderId: bug.authorId,
+            type: 'BUG_ESCALATED',
+            bugId: bug.id,
+        })
+    ));
+};
+
+/**
+ * Escalates active CRITICAL and HIGH bugs that are still OPEN with no comments after their
+ * severity's delay: they're marked so getAllBugs lists them first, followers of their tags
+ * are notified, and a `bug-escalated` event is broadcast.
+ * @returns The number of bugs escalated.
+ */
+export const escalateStaleBugs = async () => {
+    const now = Date.now();
+    const delays = getEscalationDelays();
+
+    const bugs = await prisma.bug.findMany({
+        where: {
+            status: 'OPEN',
+            escalatedAt: null,
+            mergedIntoId: null,
+            expiresAt: { gt: new Date(now) },
+            comments: { none: {} },
+            OR: [
+                { severity: 'CRITICAL', createdAt: { lte: new Date(now - delays.CRITICAL) } },
+                { severity: 'HIGH', createdAt: { lte: new Date(now - delays.HIGH) } },
+            ],
+        },
+        select: { id: true, title: true, severity: true, tags: true, authorId: true, createdAt: true },
+    });
+
+    let escalated = 0;
+    for (const bug of bugs) {
+        const escalatedAt = new Date();
+        // Skips bugs another run has escalated, or someone has commented on, in the meantime
+        const { count } = await prisma.bug.updateMany({
+            where: { id: bug.id, escalatedAt: null, comments: { none: {} } },
+            data: { escalatedAt },
+        });
+        if (count === 0) continue;
+        escalated++;
+
+        await notifyTagFollowers(bug);
+        getIO().emit('bug-escalated', { ...bug, escalatedAt });
+    }
+    return escalated;
+};
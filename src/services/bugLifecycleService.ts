@@ -0,0 +1,101 @@
+import { prisma } from '../config/db';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type BugLifetimeBounds = {
+    minHours: number;
+    maxHours: number;
+    defaultHours: number;
+    inProgressHours: number;
+};
+
+const readHours = (value: string | undefined, fallback: number) => {
+    const hours = parseInt(value || '');
+    return Number.isInteger(hours) && hours > 0 ? hours : fallback;
+};
+
+/**
+ * How long bug reports stay active, as configured by the admin:
+ * - `BUG_LIFETIME_MIN_HOURS` / `BUG_LIFETIME_MAX_HOURS` (default 1 / 168): the lifetime an
+ *   author may choose, and how far ahead an extension may push the expiry
+ * - `BUG_LIFETIME_DEFAULT_HOURS` (default 24): used when the author doesn't choose one
+ * - `BUG_IN_PROGRESS_LIFETIME_HOURS` (default 72): the minimum time left once a bug moves
+ *   to IN_PROGRESS
+ */
+export const getBugLifetimeBounds = (): BugLifetimeBounds => {
+    const minHours = readHours(process.env.BUG_LIFETIME_MIN_HOURS, 1);
+    const maxHours = Math.max(minHours, readHours(process.env.BUG_LIFETIME_MAX_HOURS, 168));
+    const clamp = (hours: number) => Math.min(Math.max(hours, minHours), maxHours);
+
+    return {
+        minHours,
+        maxHours,
+        defaultHours: clamp(readHours(process.env.BUG_LIFETIME_DEFAULT_HOURS, 24)),
+        inProgressHours: clamp(readHours(process.env.BUG_IN_PROGRESS_LIFETIME_HOURS, 72)),
+    };
+};
+
+/**
+ * Works out when a new bug expires.
+ * @param {number} [lifetimeHours] - The lifetime chosen by the author, or the default.
+ * @returns The expiry date, or an error message when the lifetime is out of bounds.
+ */
+export const getNewBugExpiry = (
+    lifetimeHours?: number
+): { expiresAt: Date; error?: undefined } | { error: string; expiresAt?: undefined } => {
+    const { minHours, maxHours, defaultHours } = getBugLifetimeBounds();
+    const hours = lifetimeHours ?? defaultHours;
+
+    if (hours < minHours || hours > maxHours) {
+        return { error: `Lifetime must be between ${minHours} and ${maxHours} hours` };
+    }
+    return { expiresAt: new Date(Date.now() + hours * HOUR_MS) };
+};
+
+/**
+ * Works out the expiry of an active bug extended by the given number of hours (the default
+ * lifetime when not given). The result never lies more than the maximum lifetime from now.
+ * @returns The new expiry date, or an error message when it can't be extended further.
+ */
+export const getExtendedBugExpiry = (
+    expiresAt: Date,
+    hours?: number
+): { expiresAt: Date; error?: undefined } | { error: string; expiresAt?: undefined } => {
+    const { maxHours, defaultHours } = getBugLifetimeBounds();
+    const latest = Date.now() + maxHours * HOUR_MS;
+    const extended = Math.min(expiresAt.getTime() + (hours ?? defaultHours) * HOUR_MS, latest);
+
+    if (extended <= expiresAt.getTime()) {
+        return { error: `Bug reports can't be kept active for more than ${maxHours} hours ahead` };
+    }
+    return { expiresAt: new Date(extended) };
+};
+
+/**
+ * The expiry of a bug that moves to IN_PROGRESS: it stays active for at least
+ * `inProgressHours` from now.
+ */
+export const getInProgressBugExpiry = (expiresAt: Date) => {
+    const { inProgressHours } = getBugLifetimeBounds();
+    return new Date(Math.max(expiresAt.getTime(), Date.now() + inProgressHours * HOUR_MS));
+};
+
+/**
+ * Whether a bug has expired. Expired bugs are archived: still readable by id, but no longer
+ * listed and closed to new interactions.
+ */
+export const isBugArchived = (bug: { expiresAt: Date }) => bug.expiresAt <= new Date();
+
+/**
+ * Stamps bugs that have expired since the last run as archived, keeping their comments,
+ * likes and views.
+ * @returns The number of bugs archived.
+ */
+export const archiveExpiredBugs = async () => {
+    const now = new Date();
+    const { count } = await prisma.bug.updateMany({
+        where: { expiresAt: { lte: now }, archivedAt: null },
+        data: { archivedAt: now },
+    });
+    return count;
+};
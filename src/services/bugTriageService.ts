@@ -0,0 +1,66 @@
+import { BugStatus, NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { createNotification } from './notificationService';
+
+/**
+ * Whether the user has been assigned to help with the bug.
+ */
+export const isBugAssignee = async (bugId: string, userId?: string) => {
+    if (!userId) return false;
+    const assignee = await prisma.bugAssignee.findUnique({
+        where: { bugId_userId: { bugId, userId } },
+        select: { id: true },
+    });
+    return !!assignee;
+};
+
+/**
+ * Whether the user may change the bug's status: its author or one of its assignees.
+ */
+export const canChangeBugStatus = async (bug: { id: string; authorId: string }, userId?: string) =>
+    !!userId && (bug.authorId === userId || (await isBugAssignee(bug.id, userId)));
+
+/**
+ * Adds an entry to a bug's status timeline.
+ * @param {Prisma.TransactionClient} tx - The transaction the status is changed in.
+ */
+export const recordStatusChange = (
+    tx: Prisma.TransactionClient,
+    data: { bugId: string; actorId: string; fromStatus: BugStatus; toStatus: BugStatus }
+) => tx.bugStatusChange.create({ data });
+
+/**
+ * Notifies everyone following a bug (its watchers and assignees, and optionally its author)
+ * of something another user did on it. Each user is notified once, and never of their own action.
+ * @param {{ id: string; authorId: string }} bug - The bug the action was taken on.
+ * @param {string} senderId - The user who took the action.
+ * @param data - The notification type, the comment it refers to, and whether to include the author.
+ */
+export const notifyBugSubscribers = async (
+    bug: { id: string; authorId: string },
+    senderId: string,
+    data: { type: NotificationType; commentId?: string; includeAuthor: boolean }
+) => {
+    const [watchers, assignees] = await Promise.all([
+        prisma.bugWatcher.findMany({ where: { bugId: bug.id }, select: { userId: true } }),
+        prisma.bugAssignee.findMany({ where: { bugId: bug.id }, select: { userId: true } }),
+    ]);
+
+    const recipientIds = new Set([...watchers, ...assignees].map(subscriber => subscriber.userId));
+    if (data.includeAuthor) {
+        recipientIds.add(bug.authorId);
+    } else {
+        recipientIds.delete(bug.authorId);
+    }
+    recipientIds.delete(senderId);
+
+    await Promise.all([...recipientIds].map(recipientId =>
+        createNotification({
+            recipientId,
+            senderId,
+            type: data.type,
+            bugId: bug.id,
+            commentId: data.commentId,
+        })
+    ));
+};
@@ -0,0 +1,320 @@
+import { Comment, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/db';
+import { canDiffLines, diffLines } from '../utils/diff';
+import { getDocSections } from './docOutlineService';
+
+// Where a comment points inside its content. Snippets take a line range (in `file`,
+// or the first file), docs take a heading slug, a block index within that heading's
+// section (0-based; the content before the first heading when no heading is given), or both.
+export const commentAnchorSchema = z.object({
+    file: z.string().min(1).optional(),
+    startLine: z.number().int().min(1).optional(),
+    endLine: z.number().int().min(1).optional(),
+    heading: z.string().min(1).optional(),
+    paragraph: z.number().int().min(0).optional(),
+});
+
+export type CommentAnchorInput = z.infer<typeof commentAnchorSchema>;
+
+type AnchorFields = Pick<
+    Comment,
+    'anchorFile' | 'anchorStartLine' | 'anchorEndLine' | 'anchorHeading' | 'anchorParagraph' | 'anchorText' | 'anchorOutdated'
+>;
+
+type AnchorResult = { fields: AnchorFields; error?: undefined } | { error: string; fields?: undefined };
+
+type AnchoredFile = { filename: string; content: string };
+
+export const anchorSelect = {
+    id: true,
+    anchorFile: true,
+    anchorStartLine: true,
+    anchorEndLine: true,
+    anchorHeading: true,
+    anchorParagraph: true,
+    anchorText: true,
+    anchorOutdated: true,
+};
+
+const emptyAnchor: AnchorFields = {
+    anchorFile: null,
+    anchorStartLine: null,
+    anchorEndLine: null,
+    anchorHeading: null,
+    anchorParagraph: null,
+    anchorText: null,
+    anchorOutdated: false,
+};
+
+const getLines = (content: string, startLine: number, endLine: number) =>
+    content.split('\n').slice(startLine - 1, endLine).join('\n');
+
+/**
+ * Validates a line-range anchor against a snippet's files.
+ * @returns The anchor columns to store, or an error message.
+ */
+export const resolveSnippetAnchor = (files: AnchoredFile[], anchor: CommentAnchorInput): AnchorResult => {
+    if (anchor.heading !== undefined || anchor.paragraph !== undefined) {
+        return { error: 'Snippet comments can only be anchored to a line range' };
+    }
+    if (anchor.startLine === undefined) {
+        return { error: 'startLine is required to anchor a snippet comment' };
+    }
+
+    const file = anchor.file ? files.find(f => f.filename === anchor.file) : files[0];
+    if (!file) {
+        return { error: `File "${anchor.file}" not found in this snippet` };
+    }
+
+    const startLine = anchor.startLine;
+    const endLine = anchor.endLine ?? startLine;
+    const lineCount = file.content.split('\n').length;
+    if (endLine < startLine || endLine > lineCount) {
+        return { error: `Line range must be within 1-${lineCount} of ${file.filename}` };
+    }
+
+    return {
+        fields: {
+            ...emptyAnchor,
+            anchorFile: file.filename,
+            anchorStartLine: startLine,
+            anchorEndLine: endLine,
+            anchorText: getLines(file.content, startLine, endLine),
+        },
+    };
+};
+
+/**
+ * Validates a heading/paragraph anchor against a doc's Markdown.
+ * @returns The anchor columns to store, or an error message.
+ */
+export const resolveDocAnchor = (content: string, anchor: CommentAnchorInput): AnchorResult => {
+    if (anchor.file !== undefined || anchor.startLine !== undefined || anchor.endLine !== undefined) {
+        return { error: 'Doc comments can only be anchored to a heading or paragraph' };
+    }
+    if (anchor.heading === undefined && anchor.paragraph === undefined) {
+        return { error: 'A heading or paragraph is required to anchor a doc comment' };
+    }
+
+    const section = getDocSections(content).find(s => s.heading === (anchor.heading ?? null));
+    if (!section) {
+        return { error: `Heading "${anchor.heading}" not found in this doc` };
+    }
+
+    if (anchor.paragraph !== undefined && anchor.paragraph >= section.blocks.length) {
+        return { error: `Paragraph ${anchor.paragraph} not found under this heading` };
+    }
+
+    return {
+        fields: {
+            ...emptyAnchor,
+            anchorHeading: section.heading,
+            anchorParagraph: anchor.paragraph ?? null,
+            anchorText: anchor.paragraph !== undefined ? section.blocks[anchor.paragraph] : section.headingText,
+        },
+    };
+};
+
+type LineRemap = (startLine: number, endLine: number) => { startLine: number; endLine: number } | null;
+
+// Moves line ranges through the edit of a file. A range survives only if none of its lines
+// changed, and files too large to diff outdate their anchors.
+const createLineRemap = (oldContent: string, newContent: string): LineRemap => {
+    if (oldContent === newContent) {
+        return (startLine, endLine) => ({ startLine, endLine });
+    }
+    if (!canDiffLines(oldContent, newContent)) {
+        return () => null;
+    }
+
+    const newLineFor = new Map<number, number>();
+    for (const line of diffLines(oldContent, newContent)) {
+        if (line.type === 'equal') {
+            newLineFor.set(line.oldLine!, line.newLine!);
+        }
+    }
+
+    return (startLine, endLine) => {
+        const newStart = newLineFor.get(startLine);
+        if (newStart === undefined) return null;
+        for (let line = startLine; line <= endLine; line++) {
+            if (newLineFor.get(line) !== newStart + (line - startLine)) return null;
+        }
+        return { startLine: newStart, endLine: newStart + (endLine - startLine) };
+    };
+};
+
+/**
+ * Diffs each file that has anchored comments once, before the snippet is updated, so the
+ * work happens outside the update's transaction. Files only on one side of the edit have no
+ * remap. Files anchored to in the meantime are diffed when first asked for.
+ * @param {string} snippetId - The snippet being edited.
+ * @param {AnchoredFile[]} oldFiles - The files before the edit.
+ * @param {AnchoredFile[]} newFiles - The files after the edit.
+ * @returns A lookup of the remap for a file, for remapSnippetAnchors.
+ */
+export const prepareSnippetAnchorRemap = async (snippetId: string, oldFiles: AnchoredFile[], newFiles: AnchoredFile[]) => {
+    const remaps = new Map<string, LineRemap | null>();
+    const getRemap = (filename: string) => {
+        if (!remaps.has(filename)) {
+            const oldFile = oldFiles.find(f => f.filename === filename);
+            const newFile = newFiles.find(f => f.filename === filename);
+            remaps.set(filename, oldFile && newFile ? createLineRemap(oldFile.content, newFile.content) : null);
+        }
+        return remaps.get(filename)!;
+    };
+
+    const anchoredFiles = await prisma.comment.findMany({
+        where: { snippetId, anchorFile: { not: null }, anchorOutdated: false },
+        select: { anchorFile: true },
+        distinct: ['anchorFile'],
+    });
+    anchoredFiles.forEach(({ anchorFile }) => getRemap(anchorFile!));
+
+    return getRemap;
+};
+
+export type SnippetAnchorRemap = Awaited<ReturnType<typeof prepareSnippetAnchorRemap>>;
+
+/**
+ * Moves line-range comment anchors along with a snippet edit. Anchors whose lines were
+ * changed or removed, or whose file no longer exists, are marked outdated and keep their
+ * last position and quoted lines.
+ * @param {Prisma.TransactionClient} tx - The transaction the snippet is updated in.
+ * @param {string} snippetId - The edited snippet.
+ * @param {SnippetAnchorRemap} getRemap - The edit's remaps, from prepareSnippetAnchorRemap.
+ */
+export const remapSnippetAnchors = async (
+    tx: Prisma.TransactionClient,
+    snippetId: string,
+    getRemap: SnippetAnchorRemap
+) => {
+    const comments = await tx.comment.findMany({
+        where: { snippetId, anchorFile: { not: null }, anchorOutdated: false },
+        select: anchorSelect,
+    });
+
+    for (const comment of comments) {
+        const range = getRemap(comment.anchorFile!)?.(comment.anchorStartLine!, comment.anchorEndLine!) ?? null;
+
+        if (!range) {
+            await tx.comment.update({ where: { id: comment.id }, data: { anchorOutdated: true } });
+        } else if (range.startLine !== comment.anchorStartLine) {
+            await tx.comment.update({
+                where: { id: comment.id },
+                data: { anchorStartLine: range.startLine, anchorEndLine: range.endLine },
+            });
+        }
+    }
+};
+
+/**
+ * Indexes a doc's new content by the text of its blocks and headings, so comment anchors
+ * can be re-found without parsing the doc inside the update's transaction.
+ * @param {string} content - The doc's new Markdown.
+ */
+export const indexDocAnchors = (content: string) => {
+    const blocks = new Map<string, { heading: string | null; index: number }[]>();
+    const headings = new Map<string, string[]>();
+
+    for (const section of getDocSections(content)) {
+        section.blocks.forEach((block, index) => {
+            blocks.set(block, [...(blocks.get(block) ?? []), { heading: section.heading, index }]);
+        });
+        if (section.heading !== null) {
+            headings.set(section.headingText!, [...(headings.get(section.headingText!) ?? []), section.heading]);
+        }
+    }
+
+    return { blocks, headings };
+};
+
+export type DocAnchorIndex = ReturnType<typeof indexDocAnchors>;
+
+/**
+ * Re-finds heading and paragraph comment anchors in a doc's new content by the text they
+ * were attached to, preferring the same heading when it appears more than once. Anchors
+ * whose text was edited or removed are marked outdated.
+ * @param {Prisma.TransactionClient} tx - The transaction the doc is updated in.
+ * @param {string} docId - The edited doc.
+ * @param {DocAnchorIndex} index - The doc's new content, from indexDocAnchors.
+ */
+export const remapDocAnchors = async (tx: Prisma.TransactionClient, docId: string, index: DocAnchorIndex) => {
+    const comments = await tx.comment.findMany({
+        where: { docId, anchorText: { not: null }, anchorOutdated: false },
+        select: anchorSelect,
+    });
+
+    for (const comment of comments) {
+        let heading: string | null | undefined;
+        let paragraph: number | null = null;
+
+        if (comment.anchorParagraph !== null) {
+            const matches = index.blocks.get(comment.anchorText!) ?? [];
+            const match = matches.find(m => m.heading === comment.anchorHeading) ?? matches[0];
+            heading = match?.heading;
+            paragraph = match?.index ?? null;
+        } else {
+            const matches = index.headings.get(comment.anchorText!) ?? [];
+            heading = matches.find(h => h === comment.anchorHeading) ?? matches[0];
+        }
+
+        if (heading === undefined) {
+            await tx.comment.update({ where: { id: comment.id }, data: { anchorOutdated: true } });
+        } else if (heading !== comment.anchorHeading || paragraph !== comment.anchorParagraph) {
+            await tx.comment.update({
+                where: { id: comment.id },
+                data: { anchorHeading: heading, anchorParagraph: paragraph },
+            });
+        }
+    }
+};
+
+/**
+ * The anchor of a comment as returned by the API, or null for whole-content comments.
+ */
+export const formatAnchor = (comment: AnchorFields) => {
+    if (comment.anchorFile !== null) {
+        return {
+            file: comment.anchorFile,
+            startLine: comment.anchorStartLine,
+            endLine: comment.anchorEndLine,
+            text: comment.anchorText,
+            outdated: comment.anchorOutdated,
+        };
+    }
+    if (comment.anchorText !== null) {
+        return {
+            heading: comment.anchorHeading,
+            paragraph: comment.anchorParagraph,
+            text: comment.anchorText,
+            outdated: comment.anchorOutdated,
+        };
+    }
+    return null;
+};
+
+const anchorKey = (comment: AnchorFields) =>
+    comment.anchorFile !== null
+        ? `${comment.anchorFile}:${comment.anchorStartLine}-${comment.anchorEndLine}:${comment.anchorOutdated}`
+        : `${comment.anchorHeading}#${comment.anchorParagraph}:${comment.anchorText}:${comment.anchorOutdated}`;
+
+/**
+ * Groups comments that share an anchor, in the order their anchors first appear in the
+ * given list. Whole-content comments form a group whose anchor is null.
+ */
+export const groupCommentsByAnchor = <T extends AnchorFields>(comments: T[]) => {
+    const groups = new Map<string, { anchor: ReturnType<typeof formatAnchor>; comments: T[] }>();
+
+    for (const comment of comments) {
+        const anchor = formatAnchor(comment);
+        const key = anchor ? anchorKey(comment) : 'none';
+        if (!groups.has(key)) {
+            groups.set(key, { anchor, comments: [] });
+        }
+        groups.get(key)!.comments.push(comment);
+    }
+
+    return [...groups.values()];
+};
@@ -0,0 +1,459 @@
+import { Socket } from 'socket.io';
+import { prisma } from '../config/db';
+import { getIO } from '../socket';
+import { applyOperation, isTextOperation, TextOperation, transformOperations, transformPosition } from '../utils/ot';
+import { canViewContent } from './shareService';
+import { applySecretPolicy, secretsErrorBody } from './secretScanService';
+import { getDocOutlineFields } from './docOutlineService';
+import { indexDocAnchors, remapDocAnchors } from './commentAnchorService';
+import { invalidateRender } from './renderService';
+
+type Cursor = { anchor: number; head: number };
+
+type Participant = {
+    socketId: string;
+    userId: string;
+    username: string;
+    name: string | null;
+    avatar: string | null;
+    canEdit: boolean;
+    cursor: Cursor | null;
+    // The share token they joined with, to check their access again later
+    token?: string;
+};
+
+// The live state of a doc while anyone has it open for editing. Edits are applied here
+// first and written back to `Doc.content` periodically and when the last participant leaves.
+type CollabSession = {
+    docId: string;
+    content: string;
+    // Number of operations applied since the session was loaded
+    version: number;
+    // The most recent operations, used to transform edits made against an older version
+    history: TextOperation[];
+    dirty: boolean;
+    saving: boolean;
+    // Set while the content can't be saved because it contains secrets
+    blocked: boolean;
+    participants: Map<string, Participant>;
+};
+
+type SocketUser = { id: string; username: string; name: string | null; avatar: string | null };
+
+type Ack = (response: Record<string, unknown>) => void;
+
+// Clients further behind than this must rejoin to get the current content.
+const MAX_HISTORY = 500;
+
+// The room a doc's editors share. Unlike the public content room, sockets only join it
+// through `doc-edit-join`, after the access check.
+const editRoom = (docId: string) => `doc-edit:${docId}`;
+
+const sessions = new Map<string, CollabSession>();
+const loadingSessions = new Map<string, Promise<CollabSession | null>>();
+// The write in progress to each doc's content, live or through the API; writes queue behind it
+const docWrites = new Map<string, Promise<unknown>>();
+
+// Runs writes to a doc's content one at a time, so a live save can't land on top of an API
+// write with content copied before it.
+const queueDocWrite = <T>(docId: string, write: () => Promise<T>) => {
+    const run = (docWrites.get(docId) ?? Promise.resolve()).then(write);
+    const done = run.catch(() => {});
+    docWrites.set(docId, done);
+    done.then(() => {
+        if (docWrites.get(docId) === done) docWrites.delete(docId);
+    });
+    return run;
+};
+
+/**
+ * Whether the user is one of the doc's co-authors.
+ */
+export const isDocCoAuthor = async (docId: string, userId?: string) => {
+    if (!userId) return false;
+    const coAuthor = await prisma.docCoAuthor.findUnique({
+        where: { docId_userId: { docId, userId } },
+        select: { id: true },
+    });
+    return !!coAuthor;
+};
+
+/**
+ * Whether the user may edit the doc's content: its author or one of its co-authors.
+ */
+export const canEditDoc = async (doc: { id: string; authorId: string }, userId?: string) =>
+    !!userId && (doc.authorId === userId || (await isDocCoAuthor(doc.id, userId)));
+
+const getPresence = (session: CollabSession) =>
+    [...session.participants.values()].map(({ socketId, userId, username, name, avatar, canEdit, cursor }) => ({
+        socketId, userId, username, name, avatar, canEdit, cursor,
+    }));
+
+const broadcastPresence = (session: CollabSession) => {
+    getIO().to(editRoom(session.docId)).emit('doc-edit-presence', { docId: session.docId, participants: getPresence(session) });
+};
+
+// Loads the doc into a session, making sure concurrent joins share a single one.
+const getSession = async (docId: string) => {
+    const existing = sessions.get(docId);
+    if (existing) return existing;
+
+    let loading = loadingSessions.get(docId);
+    if (!loading) {
+        loading = prisma.doc
+            .findUnique({ where: { id: docId }, select: { content: true } })
+            .then(doc => {
+                if (!doc) return null;
+                const session: CollabSession = {
+                    docId,
+                    content: doc.content,
+                    version: 0,
+                    history: [],
+                    dirty: false,
+                    saving: false,
+                    blocked: false,
+                    participants: new Map(),
+                };
+                sessions.set(docId, session);
+                return session;
+            })
+            .finally(() => loadingSessions.delete(docId));
+        loadingSessions.set(docId, loading);
+    }
+    return loading;
+};
+
+// Brings a position sent against an older version up to date with the session.
+const transformThroughHistory = (session: CollabSession, position: number, version: number) =>
+    session.history
+        .slice(version - (session.version - session.history.length))
+        .reduce((transformed, op) => transformPosition(transformed, op), position);
+
+/**
+ * Writes a session's content back to the doc, with its outline and comment anchors updated.
+ * Content that others can read isn't saved while it contains secrets; participants are told
+ * so they can remove them.
+ */
+const saveSession = async (session: CollabSession) => {
+    // The content is read once it's this save's turn; an API write before it resets the session
+    const { docId, content, version } = session;
+    if (!session.dirty) return;
+
+    const doc = await prisma.doc.findUnique({ where: { id: docId }, select: { visibility: true } });
+    if (!doc) {
+        closeCollabSession(docId);
+        return;
+    }
+
+    const secretCheck = applySecretPolicy({ content }, { isPublished: doc.visibility !== 'PRIVATE' });
+    if (!secretCheck.ok) {
+        if (!session.blocked) {
+            getIO().to(editRoom(docId)).emit('doc-edit-blocked', { docId, version, ...secretsErrorBody(secretCheck.details) });
+        }
+        session.blocked = true;
+        return;
+    }
+    session.blocked = false;
+
+    const outline = getDocOutlineFields(content);
+    const anchorIndex = indexDocAnchors(content);
+    await prisma.$transaction(async (tx) => {
+        await remapDocAnchors(tx, docId, anchorIndex);
+        await tx.doc.update({
+            where: { id: docId },
+            data: { content, ...outline, updatedAt: new Date() },
+        });
+    });
+    invalidateRender('doc', docId);
+
+    // Edits that arrived while saving are picked up by the next run
+    if (session.version === version) {
+        session.dirty = false;
+    }
+    getIO().to(editRoom(docId)).emit('doc-edit-saved', { docId, version, savedAt: new Date() });
+};
+
+// Saves a session's unsaved edits, unless a save of it is already waiting or running.
+const persistSession = async (session: CollabSession) => {
+    if (!session.dirty || session.saving) return;
+    session.saving = true;
+
+    const { docId } = session;
+    try {
+        await queueDocWrite(docId, () => saveSession(session));
+    } catch (error) {
+        console.error(`Error saving collaborative edits for doc ${docId}:`, error);
+    } finally {
+        session.saving = false;
+    }
+};
+
+// Drops a session nobody has open any more once its edits are saved. Edits the secret scan
+// blocks can't be saved, and with no one left to remove the secrets they're discarded.
+const releaseIfIdle = (session: CollabSession) => {
+    // Someone may have joined while the last edits were being saved
+    if (session.participants.size > 0 || sessions.get(session.docId) !== session) return;
+    if (session.dirty) {
+        if (!session.blocked) return; // Retried by the next periodic save
+        console.warn(`Discarding unsaved collaborative edits to doc ${session.docId}: they contain secrets`);
+    }
+    sessions.delete(session.docId);
+};
+
+// Saves and drops a session once its last participant is gone.
+const endIfEmpty = async (session: CollabSession) => {
+    if (session.participants.size > 0) return;
+    await persistSession(session);
+    releaseIfIdle(session);
+};
+
+const leaveSession = async (socket: Socket, docId: string) => {
+    const session = sessions.get(docId);
+    if (!session || !session.participants.delete(socket.id)) return;
+    socket.leave(editRoom(docId));
+
+    broadcastPresence(session);
+    await endIfEmpty(session);
+};
+
+/**
+ * Registers the collaborative editing events for a connected socket. Editing runs over a
+ * room only joined participants are in, with a server-ordered operational transform protocol:
+ * - `doc-edit-join` `{ docId, token? }` → ack `{ content, version, canEdit, participants }`
+ * - `doc-edit-op` `{ docId, version, ops }` → ack `{ version }`; others get `doc-edit-op`
+ *   with the transformed operation and the version it produces
+ * - `doc-edit-cursor` `{ docId, version, anchor, head }`; others get `doc-edit-cursor`
+ * - `doc-edit-leave` `docId`
+ * Participants also receive `doc-edit-presence`, `doc-edit-saved`, `doc-edit-blocked`,
+ * `doc-edit-reset` (the doc was replaced through the API) and `doc-edit-closed`.
+ */
+export const registerDocCollabHandlers = (socket: Socket) => {
+    const user = (socket.request as any).user as SocketUser | undefined;
+
+    socket.on('doc-edit-join', async (payload: { docId?: string; token?: string }, ack?: Ack) => {
+        const reply: Ack = typeof ack === 'function' ? ack : () => {};
+        try {
+            const docId = payload?.docId;
+            if (!user) {
+                return reply({ error: 'Authentication required' });
+            }
+            if (typeof docId !== 'string') {
+                return reply({ error: 'docId is required' });
+            }
+
+            const doc = await prisma.doc.findUnique({
+                where: { id: docId },
+                select: { id: true, authorId: true, visibility: true, status: true },
+            });
+            if (!doc) {
+                return reply({ error: 'Document not found' });
+            }
+
+            const canEdit = await canEditDoc(doc, user.id);
+            if (!canEdit && !(await canViewContent('doc', doc, user.id, payload.token))) {
+                return reply({ error: 'Access denied to this document' });
+            }
+
+            const session = await getSession(docId);
+            if (!session) {
+                return reply({ error: 'Document not found' });
+            }
+
+            socket.join(editRoom(docId));
+            session.participants.set(socket.id, {
+                socketId: socket.id,
+                userId: user.id,
+                username: user.username,
+                name: user.name,
+                avatar: user.avatar,
+                canEdit,
+                cursor: null,
+                token: typeof payload.token === 'string' ? payload.token : undefined,
+            });
+
+            reply({ content: session.content, version: session.version, canEdit, participants: getPresence(session) });
+            broadcastPresence(session);
+        } catch (error) {
+            console.error('Error joining collaborative editing session:', error);
+            reply({ error: 'Internal server error' });
+        }
+    });
+
+    socket.on('doc-edit-op', (payload: { docId?: string; version?: number; ops?: unknown }, ack?: Ack) => {
+        const reply: Ack = typeof ack === 'function' ? ack : () => {};
+        const session = payload?.docId ? sessions.get(payload.docId) : undefined;
+        const participant = session?.participants.get(socket.id);
+
+        if (!session || !participant) {
+            return reply({ error: 'Join the document before editing it' });
+        }
+        if (!participant.canEdit) {
+            return reply({ error: 'Not authorized to edit this document' });
+        }
+
+        const { version, ops } = payload;
+        if (!isTextOperation(ops) || !Number.isInteger(version) || version! < 0 || version! > session.version) {
+            return reply({ error: 'Invalid operation' });
+        }
+
+        const oldestVersion = session.version - session.history.length;
+        if (version! < oldestVersion) {
+            return reply({ error: 'Too far behind the current version, rejoin to resync', resync: true });
+        }
+
+        let op: TextOperation = ops;
+        try {
+            for (const concurrent of session.history.slice(version! - oldestVersion)) {
+                op = transformOperations(op, concurrent)[0];
+            }
+            session.content = applyOperation(session.content, op);
+        } catch {
+            return reply({ error: 'Operation does not match the document', resync: true });
+        }
+
+        session.history.push(op);
+        if (session.history.length > MAX_HISTORY) {
+            session.history.shift();
+        }
+        session.version++;
+        session.dirty = true;
+
+        for (const other of session.participants.values()) {
+            if (other.cursor) {
+                other.cursor = { anchor: transformPosition(other.cursor.anchor, op), head: transformPosition(other.cursor.head, op) };
+            }
+        }
+
+        socket.to(editRoom(session.docId)).emit('doc-edit-op', { docId: session.docId, version: session.version, ops: op, userId: participant.userId });
+        reply({ version: session.version });
+    });
+
+    socket.on('doc-edit-cursor', (payload: { docId?: string; version?: number; anchor?: number; head?: number }) => {
+        const session = payload?.docId ? sessions.get(payload.docId) : undefined;
+        const participant = session?.participants.get(socket.id);
+        const { version, anchor, head } = payload ?? {};
+        if (!session || !participant || !Number.isInteger(version) || !Number.isInteger(anchor) || !Number.isInteger(head)) return;
+        if (version! > session.version || version! < session.version - session.history.length) return;
+
+        const clamp = (position: number) => Math.max(0, Math.min(position, session.content.length));
+        participant.cursor = {
+            anchor: clamp(transformThroughHistory(session, anchor!, version!)),
+            head: clamp(transformThroughHistory(session, head!, version!)),
+        };
+        socket.to(editRoom(session.docId)).emit('doc-edit-cursor', {
+            docId: session.docId,
+            version: session.version,
+            socketId: socket.id,
+            userId: participant.userId,
+            cursor: participant.cursor,
+        });
+    });
+
+    socket.on('doc-edit-leave', (docId: string) => {
+        if (typeof docId === 'string') {
+            leaveSession(socket, docId);
+        }
+    });
+
+    socket.on('disconnect', () => {
+        for (const [docId, session] of sessions) {
+            if (session.participants.has(socket.id)) {
+                leaveSession(socket, docId);
+            }
+        }
+    });
+};
+
+// Replaces a live session's content after the doc was saved through the API, so editors
+// continue from what was stored. Edits still in flight are rejected with a resync.
+const resetCollabSession = (docId: string, content: string) => {
+    const session = sessions.get(docId);
+    if (!session) return;
+
+    session.content = content;
+    session.version++;
+    session.history = [];
+    session.dirty = false;
+    session.blocked = false;
+    for (const participant of session.participants.values()) {
+        participant.cursor = null;
+    }
+    getIO().to(editRoom(docId)).emit('doc-edit-reset', { docId, content, version: session.version });
+};
+
+/**
+ * Saves a doc through the API while it may be open for live editing: the write waits for
+ * any save of the live session, and the session is then reset to the stored content.
+ * @param {string} docId - The doc being saved.
+ * @param {() => Promise<T>} write - Writes the doc and returns it as stored.
+ */
+export const writeDocContent = <T extends { content: string }>(docId: string, write: () => Promise<T>) =>
+    queueDocWrite(docId, async () => {
+        const doc = await write();
+        resetCollabSession(docId, doc.content);
+        return doc;
+    });
+
+/**
+ * Ends a live session without saving, e.g. when the doc was deleted.
+ */
+export const closeCollabSession = (docId: string) => {
+    if (sessions.delete(docId)) {
+        getIO().to(editRoom(docId)).emit('doc-edit-closed', { docId });
+        getIO().in(editRoom(docId)).socketsLeave(editRoom(docId));
+    }
+};
+
+/**
+ * Checks every participant's access to a doc again, after a co-author was removed or the doc's
+ * visibility or status changed. Participants who can no longer edit it become read-only, and
+ * those who can no longer read it are removed from the session and told with `doc-edit-closed`.
+ */
+export const recheckCollabAccess = async (docId: string) => {
+    const session = sessions.get(docId);
+    if (!session) return;
+
+    const doc = await prisma.doc.findUnique({
+        where: { id: docId },
+        select: { id: true, authorId: true, visibility: true, status: true },
+    });
+    if (!doc) {
+        closeCollabSession(docId);
+        return;
+    }
+
+    let changed = false;
+    for (const participant of [...session.participants.values()]) {
+        const canEdit = await canEditDoc(doc, participant.userId);
+        if (canEdit || (await canViewContent('doc', doc, participant.userId, participant.token))) {
+            if (participant.canEdit !== canEdit) {
+                participant.canEdit = canEdit;
+                changed = true;
+            }
+            continue;
+        }
+
+        session.participants.delete(participant.socketId);
+        getIO().to(participant.socketId).emit('doc-edit-closed', { docId });
+        getIO().in(participant.socketId).socketsLeave(editRoom(docId));
+        changed = true;
+    }
+
+    if (changed) {
+        broadcastPresence(session);
+        await endIfEmpty(session);
+    }
+};
+
+/**
+ * Starts saving live sessions with unsaved edits every few seconds
+ * (`DOC_COLLAB_SAVE_INTERVAL_MS`, default 5000).
+ */
+export const startDocCollabPersistence = () => {
+    const interval = parseInt(process.env.DOC_COLLAB_SAVE_INTERVAL_MS || '5000');
+    setInterval(() => {
+        for (const session of sessions.values()) {
+            persistSession(session).then(() => releaseIfIdle(session));
+        }
+    }, interval).unref();
+};
@@ -0,0 +1,147 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { escapeHtml, getDocHtml, unescapeHtml } from './renderService';
+import { stringifyFrontMatter } from '../utils/frontMatter';
+
+type ExportableDoc = {
+    id: string;
+    title: string;
+    description: string | null;
+    coverImage: string | null;
+    tags: string[];
+    content: string;
+    createdAt: Date;
+    updatedAt: Date;
+    publishedAt: Date | null;
+    author: { username: string; name: string | null };
+};
+
+// Same directory uploadController writes to and app.ts serves at /uploads.
+const uploadsDir = path.resolve('uploads');
+
+const IMAGE_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+};
+
+const EXPORT_STYLES = `
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Helvetica,Arial,sans-serif;line-height:1.6;color:#1f2328;max-width:780px;margin:40px auto;padding:0 20px}
+img{max-width:100%}
+pre{background:#f6f8fa;padding:12px;border-radius:6px;overflow:auto}
+code{font-family:ui-monospace,SFMono-Regular,Menlo,Consolas,monospace;font-size:90%}
+blockquote{margin:0;padding:0 1em;color:#656d76;border-left:4px solid #d0d7de}
+table{border-collapse:collapse}td,th{border:1px solid #d0d7de;padding:6px 13px}
+.doc-meta{color:#656d76;font-size:14px}
+.doc-cover{width:100%;border-radius:6px}
+`.trim();
+
+/**
+ * Maps an image URL to the file it serves from the uploads directory, if it is one.
+ * Accepts `/uploads/...` paths and absolute URLs on this server; anything resolving
+ * outside the uploads directory, or that can't be decoded, is ignored.
+ */
+const getUploadPath = (url: string) => {
+    const baseUrl = process.env.BASE_URL || 'http://localhost:3001';
+    const urlPath = url.startsWith(`${baseUrl}/uploads/`) ? url.slice(baseUrl.length) : url;
+    if (!urlPath.startsWith('/uploads/')) return null;
+
+    let filename: string;
+    try {
+        filename = decodeURIComponent(urlPath.slice('/uploads/'.length).split(/[?#]/)[0]);
+    } catch {
+        return null; // Malformed percent-encoding can't name an upload
+    }
+
+    const filePath = path.resolve(uploadsDir, filename);
+    return filePath.startsWith(uploadsDir + path.sep) ? filePath : null;
+};
+
+// Reads an uploaded image as a data: URI, or returns null when it can't be inlined.
+const toDataUri = async (url: string) => {
+    const filePath = getUploadPath(url);
+    const mimetype = filePath && IMAGE_TYPES[path.extname(filePath).toLowerCase()];
+    if (!filePath || !mimetype) return null;
+
+    try {
+        const data = await fs.readFile(filePath);
+        return `data:${mimetype};base64,${data.toString('base64')}`;
+    } catch {
+        return null;
+    }
+};
+
+// Replaces the src of every image served from /uploads with its contents.
+const inlineUploadedImages = async (html: string) => {
+    const sources = [...new Set([...html.matchAll(/<img src="([^"]*)"/g)].map(match => match[1]))];
+    const inlined = new Map<string, string>();
+
+    await Promise.all(sources.map(async (source) => {
+        const dataUri = await toDataUri(unescapeHtml(source));
+        if (dataUri) inlined.set(source, dataUri);
+    }));
+
+    return html.replace(/<img src="([^"]*)"/g, (match, source) =>
+        inlined.has(source) ? `<img src="${inlined.get(source)}"` : match
+    );
+};
+
+const slugifyFilename = (title: string) =>
+    title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'doc';
+
+/**
+ * The download filename for an exported doc, e.g. "getting-started.md".
+ */
+export const getExportFilename = (doc: { title: string }, extension: 'md' | 'html') =>
+    `${slugifyFilename(doc.title)}.${extension}`;
+
+/**
+ * Exports a doc as Markdown with its metadata in YAML front-matter, in the same shape the
+ * import endpoint reads.
+ */
+export const exportDocMarkdown = (doc: ExportableDoc) =>
+    stringifyFrontMatter({
+        title: doc.title,
+        description: doc.description,
+        tags: doc.tags.length > 0 ? doc.tags : null,
+        coverImage: doc.coverImage,
+        author: doc.author.username,
+        date: (doc.publishedAt ?? doc.createdAt).toISOString(),
+    }, doc.content);
+
+/**
+ * Exports a doc as a standalone HTML page: rendered content, inline styles, and images
+ * uploaded to this server embedded as data URIs so the file works offline.
+ */
+export const exportDocHtml = async (doc: ExportableDoc) => {
+    const date = (doc.publishedAt ?? doc.createdAt).toISOString().slice(0, 10);
+    const cover = doc.coverImage
+        ? `<img src="${escapeHtml(doc.coverImage)}" class="doc-cover" alt="">`
+        : '';
+
+    const page = [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(doc.title)}</title>`,
+        doc.description ? `<meta name="description" content="${escapeHtml(doc.description)}">` : '',
+        `<style>${EXPORT_STYLES}</style>`,
+        '</head>',
+        '<body>',
+        '<article>',
+        cover,
+        `<h1>${escapeHtml(doc.title)}</h1>`,
+        `<p class="doc-meta">By ${escapeHtml(doc.author.name || doc.author.username)} · ${date}</p>`,
+        getDocHtml(doc),
+        '</article>',
+        '</body>',
+        '</html>',
+    ].filter(Boolean).join('\n');
+
+    return inlineUploadedImages(page);
+};
@@ -0,0 +1,137 @@
+import { Prisma } from '@prisma/client';
+import { Tokens } from 'marked';
+import { getHeadingText, lexMarkdown, unescapeHtml, walkMarkdownTokens } from './renderService';
+import { createSlugger } from '../utils/slug';
+
+export type TocEntry = {
+    level: number;
+    text: string;
+    // Matches the id of the heading in the rendered HTML, for `#slug` deep links
+    slug: string;
+    children: TocEntry[];
+};
+
+export type DocOutline = {
+    toc: TocEntry[];
+    wordCount: number;
+    // Estimated minutes to read, at least 1
+    readingTime: number;
+};
+
+// Typical silent reading speed for technical prose.
+const WORDS_PER_MINUTE = 200;
+// Code is read more slowly than prose, so it's timed per line instead.
+const CODE_LINES_PER_MINUTE = 20;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’_-][\p{L}\p{N}]+)*/gu;
+
+const countWords = (text: string) => text.match(WORD_PATTERN)?.length ?? 0;
+
+// Nests flat headings under the closest preceding heading of a higher level.
+const buildToc = (headings: Omit<TocEntry, 'children'>[]) => {
+    const toc: TocEntry[] = [];
+    const stack: TocEntry[] = [];
+
+    for (const heading of headings) {
+        const entry: TocEntry = { ...heading, children: [] };
+        while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) {
+            stack.pop();
+        }
+        (stack.length > 0 ? stack[stack.length - 1].children : toc).push(entry);
+        stack.push(entry);
+    }
+
+    return toc;
+};
+
+/**
+ * Parses a doc's Markdown into its table of contents, word count and reading time.
+ * Headings inside block quotes or lists still get a slug (so numbering matches the
+ * rendered HTML) but only top-level headings are listed in the table of contents.
+ * @param {string} content - The doc's Markdown.
+ */
+export const analyzeDocContent = (content: string): DocOutline => {
+    const tokens = lexMarkdown(content);
+    const topLevel = new Set(tokens);
+    const slug = createSlugger();
+    const headings: Omit<TocEntry, 'children'>[] = [];
+    let wordCount = 0;
+    let codeLines = 0;
+
+    walkMarkdownTokens(tokens, (token) => {
+        switch (token.type) {
+            case 'heading': {
+                const heading = token as Tokens.Heading;
+                const text = getHeadingText(heading);
+                const headingSlug = slug(text);
+                if (topLevel.has(token)) {
+                    headings.push({ level: heading.depth, text, slug: headingSlug });
+                }
+                break;
+            }
+            case 'code':
+                codeLines += (token as Tokens.Code).text.split('\n').length;
+                break;
+            case 'text':
+            case 'codespan':
+            case 'escape':
+                // Block-level text wraps inline tokens that are visited on their own
+                if (!('tokens' in token && token.tokens?.length)) {
+                    wordCount += countWords(unescapeHtml(token.text));
+                }
+                break;
+        }
+    });
+
+    const minutes = wordCount / WORDS_PER_MINUTE + codeLines / CODE_LINES_PER_MINUTE;
+
+    return {
+        toc: buildToc(headings),
+        wordCount,
+        readingTime: Math.max(1, Math.round(minutes)),
+    };
+};
+
+/**
+ * The outline columns to store alongside a doc's content when it is saved.
+ */
+export const getDocOutlineFields = (content: string) => {
+    const { toc, wordCount, readingTime } = analyzeDocContent(content);
+    return { toc: toc as Prisma.InputJsonArray, wordCount, readingTime };
+};
+
+export type DocSection = {
+    // Slug of the heading the section starts at; null for the content before the first heading
+    heading: string | null;
+    headingText: string | null;
+    // The section's top-level blocks (paragraphs, lists, code, quotes, tables) as Markdown
+    blocks: string[];
+};
+
+/**
+ * Splits a doc into sections at its top-level headings, for anchoring comments to a
+ * heading or to a block within a section. Slugs match the table of contents.
+ */
+export const getDocSections = (content: string): DocSection[] => {
+    const tokens = lexMarkdown(content);
+    const slug = createSlugger();
+    const slugs = new Map<Tokens.Heading, string>();
+
+    walkMarkdownTokens(tokens, (token) => {
+        if (token.type === 'heading') {
+            slugs.set(token as Tokens.Heading, slug(getHeadingText(token as Tokens.Heading)));
+        }
+    });
+
+    const sections: DocSection[] = [{ heading: null, headingText: null, blocks: [] }];
+    for (const token of tokens) {
+        if (token.type === 'heading') {
+            const heading = token as Tokens.Heading;
+            sections.push({ heading: slugs.get(heading)!, headingText: getHeadingText(heading), blocks: [] });
+        } else if (token.type !== 'space' && token.raw.trim()) {
+            sections[sections.length - 1].blocks.push(token.raw.trim());
+        }
+    }
+
+    return sections;
+};
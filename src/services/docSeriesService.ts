@@ -0,0 +1,84 @@
+import { Prisma, PublishStatus, Visibility } from '@prisma/client';
+import { prisma } from '../config/db';
+import * as notificationService from './notificationService';
+import { isOpenToEveryone } from './shareService';
+
+type ChapterLink = {
+    id: string;
+    title: string;
+};
+
+/**
+ * Returns the position for a doc appended to the end of a series.
+ * @param {Prisma.TransactionClient} tx - The client to query with, so the position is read inside the caller's transaction.
+ * @param {string} seriesId - The series the doc is joining.
+ */
+export const getNextSeriesPosition = async (tx: Prisma.TransactionClient, seriesId: string) => {
+    const last = await tx.doc.findFirst({
+        where: { seriesId },
+        orderBy: { seriesPosition: 'desc' },
+        select: { seriesPosition: true },
+    });
+    return (last?.seriesPosition ?? -1) + 1;
+};
+
+/**
+ * Tells the author's followers that a new chapter was published, as long as the chapter is public.
+ */
+export const notifyNewChapter = async (doc: { id: string; authorId: string; visibility: Visibility; status: PublishStatus }) => {
+    if (doc.visibility !== 'PUBLIC' || doc.status !== 'PUBLISHED') {
+        return;
+    }
+    await notificationService.notifyFollowers(doc.authorId, {
+        type: 'NEW_CHAPTER',
+        docId: doc.id,
+    });
+};
+
+/**
+ * Builds the series navigation shown with a doc: previous/next chapters and the reader's progress.
+ * Chapters the viewer can't open (other people's private or unpublished docs) are skipped, so links never lead to a 403.
+ * @param {string} seriesId - The series the doc belongs to.
+ * @param {string} docId - The doc being read.
+ * @param {string} [viewerId] - The current user, if logged in.
+ */
+export const getSeriesNavigation = async (seriesId: string, docId: string, viewerId?: string) => {
+    const series = await prisma.docSeries.findUnique({
+        where: { id: seriesId },
+        select: {
+            id: true,
+            title: true,
+            description: true,
+            coverImage: true,
+            docs: {
+                orderBy: { seriesPosition: 'asc' },
+                select: { id: true, title: true, visibility: true, status: true, authorId: true },
+            },
+        },
+    });
+
+    if (!series) {
+        return null;
+    }
+
+    const chapters = series.docs.filter(chapter =>
+        chapter.id === docId || isOpenToEveryone(chapter) || chapter.authorId === viewerId
+    );
+    const index = chapters.findIndex(chapter => chapter.id === docId);
+    const toLink = (chapter?: ChapterLink): ChapterLink | null =>
+        chapter ? { id: chapter.id, title: chapter.title } : null;
+
+    return {
+        id: series.id,
+        title: series.title,
+        description: series.description,
+        coverImage: series.coverImage,
+        previous: toLink(chapters[index - 1]),
+        next: toLink(chapters[index + 1]),
+        progress: {
+            chapter: index + 1,
+            totalChapters: chapters.length,
+            percent: Math.round(((index + 1) / chapters.length) * 100),
+        },
+    };
+};
@@ -0,0 +1,408 @@
+import hljs from 'highlight.js';
+import { getLanguageFromFilename } from '../utils/languages';
+
+// The `language` value clients send to ask the server to detect the language itself.
+export const AUTO_LANGUAGE = 'auto';
+
+export type LanguageGuess = {
+    language: string;
+    confidence: number;
+};
+
+export type LanguageDetection = LanguageGuess & {
+    source: 'filename' | 'heuristics' | 'highlighter' | 'fallback';
+    alternatives: LanguageGuess[];
+};
+
+type Signal = [RegExp, number];
+
+// Syntax shared by JavaScript and TypeScript; TypeScript only wins with its own signals on top.
+const JAVASCRIPT_SIGNALS: Signal[] = [
+    [/\b(const|let)\s+\w+\s*=/g, 1],
+    [/=>\s*[{(\w]/g, 1],
+    [/\bfunction\s*\w*\s*\(/g, 1],
+    [/\bconsole\.(log|error|warn)\(/g, 2],
+    [/\brequire\(\s*['"][^'"]+['"]\s*\)/g, 3],
+    [/\bmodule\.exports\b|\bexports\.\w+\s*=/g, 3],
+    [/^[ \t]*import\s+.+\s+from\s+['"][^'"]+['"]/gm, 2],
+    [/^[ \t]*export\s+(default|const|function|class)\b/gm, 2],
+    [/\b(document|window)\.\w+/g, 2],
+    [/\basync\s+(function|\(|\w+\s*=>)/g, 1],
+    [/===|!==/g, 1],
+];
+
+const TYPESCRIPT_SIGNALS: Signal[] = [
+    [/:\s*(string|number|boolean|any|unknown|void|never)(\[\])?\s*[,;)=]/g, 3],
+    [/^[ \t]*(export\s+)?interface\s+\w+/gm, 4],
+    [/^[ \t]*(export\s+)?type\s+\w+(<[^>]*>)?\s*=/gm, 4],
+    [/^[ \t]*(export\s+)?(const\s+)?enum\s+\w+\s*\{/gm, 3],
+    [/\b(private|public|protected|readonly)\s+\w+\s*[:;(]/g, 2],
+    [/\bas\s+(const|string|number|any|unknown)\b/g, 2],
+    [/\b\w+<[A-Z]\w*(,\s*\w+)*>\s*\(/g, 2],
+    [/\bimplements\s+\w+/g, 2],
+];
+
+const LANGUAGE_SIGNALS: Record<string, Signal[]> = {
+    python: [
+        [/^[ \t]*def\s+\w+\s*\(.*\)\s*(->\s*[\w\[\], .]+)?:[ \t]*$/gm, 4],
+        [/^[ \t]*(from\s+[\w.]+\s+)?import\s+[\w.]+(\s+as\s+\w+)?[ \t]*$/gm, 2],
+        [/^[ \t]*class\s+\w+(\(.*\))?:[ \t]*$/gm, 3],
+        [/\bprint\(/g, 1],
+        [/\bself\.\w+/g, 2],
+        [/^[ \t]*(elif|except|finally)\b.*:[ \t]*$/gm, 3],
+        [/\bNone\b|\bTrue\b|\bFalse\b/g, 1],
+        [/if __name__ == ['"]__main__['"]/g, 5],
+    ],
+    java: [
+        [/\bpublic\s+(static\s+)?(final\s+)?class\s+\w+/g, 4],
+        [/\bpublic\s+static\s+void\s+main\s*\(/g, 5],
+        [/\bSystem\.out\.print(ln)?\(/g, 5],
+        [/^[ \t]*import\s+java(x)?\.[\w.*]+;/gm, 5],
+        [/^[ \t]*package\s+[\w.]+;/gm, 3],
+        [/@Override\b/g, 3],
+        [/\b(private|public|protected)\s+(static\s+)?(final\s+)?[A-Z]\w*(<[^>]*>)?\s+\w+\s*[;=(]/g, 2],
+    ],
+    go: [
+        [/^[ \t]*package\s+\w+[ \t]*$/gm, 4],
+        [/^[ \t]*func\s+(\(\w+\s+\*?\w+\)\s*)?\w+\s*\(/gm, 4],
+        [/:=/g, 2],
+        [/\bfmt\.\w+\(/g, 4],
+        [/^[ \t]*import\s+\([ \t]*$/gm, 3],
+        [/\berr\s*!=\s*nil\b/g, 4],
+        [/\bgo\s+func\b|\bchan\s+\w+/g, 3],
+    ],
+    rust: [
+        [/\bfn\s+\w+\s*(<[^>\n]{0,200}>)?\s*\(/g, 4],
+        [/\blet\s+mut\s+\w+/g, 4],
+        [/\bimpl(\s*<[^>]*>)?\s+\w+/g, 3],
+        [/\bprintln!\(|\bvec!\[|\bformat!\(/g, 4],
+        [/^[ \t]*use\s+(std|crate|super)::/gm, 4],
+        [/&str\b|\bOption<|\bResult</g, 2],
+        [/\bpub\s+(fn|struct|enum|mod)\b/g, 3],
+    ],
+    ruby: [
+        [/^[ \t]*def\s+\w+[?!]?(\(.*\))?[ \t]*$/gm, 3],
+        [/^[ \t]*end[ \t]*$/gm, 2],
+        [/\bputs\s+/g, 3],
+        [/\brequire\s+['"][\w\/]+['"][ \t]*$/gm, 2],
+        [/\.each\s+do\s*\|/g, 4],
+        [/\battr_(accessor|reader|writer)\b/g, 4],
+        [/@\w+\s*=/g, 1],
+    ],
+    php: [
+        [/<\?php/g, 8],
+        [/\$\w+\s*=/g, 2],
+        [/\becho\s+/g, 2],
+        [/\bfunction\s+\w+\s*\(\s*\$/g, 4],
+        [/->\w+\(/g, 1],
+        [/\bnamespace\s+[\w\\]+;/g, 3],
+    ],
+    c: [
+        [/^[ \t]*#include\s*<(stdio|stdlib|string|math|unistd)\.h>/gm, 5],
+        [/\bprintf\s*\(/g, 2],
+        [/\bint\s+main\s*\(/g, 3],
+        [/\bmalloc\s*\(|\bfree\s*\(/g, 3],
+        [/\bstruct\s+\w+\s*\{/g, 2],
+    ],
+    cpp: [
+        [/^[ \t]*#include\s*<(iostream|vector|string|map|memory|algorithm)>/gm, 5],
+        [/\bstd::\w+/g, 3],
+        [/\bcout\s*<<|\bcin\s*>>/g, 4],
+        [/\btemplate\s*<\s*(typename|class)/g, 4],
+        [/^[ \t]*using\s+namespace\s+std;/gm, 5],
+        [/\bint\s+main\s*\(/g, 2],
+    ],
+    csharp: [
+        [/^[ \t]*using\s+System(\.[\w.]+)?;/gm, 5],
+        [/\bnamespace\s+[\w.]+\s*\{?/g, 2],
+        [/\bConsole\.Write(Line)?\(/g, 5],
+        [/\bpublic\s+(static\s+)?(async\s+)?(void|Task|string|int)\s+\w+\s*\(/g, 2],
+        [/\{\s*get;\s*(set;)?\s*\}/g, 4],
+        [/\bvar\s+\w+\s*=\s*new\s+\w+/g, 2],
+    ],
+    kotlin: [
+        [/\bfun\s+\w+\s*\(/g, 4],
+        [/\bval\s+\w+(\s*:\s*\w+)?\s*=/g, 2],
+        [/\bprintln\(/g, 1],
+        [/\bdata\s+class\b|\bcompanion\s+object\b/g, 4],
+        [/^[ \t]*package\s+[\w.]+[ \t]*$/gm, 1],
+    ],
+    swift: [
+        [/^[ \t]*import\s+(Foundation|UIKit|SwiftUI)[ \t]*$/gm, 6],
+        [/\bfunc\s+\w+\s*\(/g, 3],
+        [/\bguard\s+let\b|\bif\s+let\b/g, 4],
+        [/\bvar\s+\w+\s*:\s*[A-Z]\w*/g, 1],
+        [/\bstruct\s+\w+\s*:\s*View\b/g, 5],
+    ],
+    sql: [
+        [/\bSELECT\b[\s\S]+?\bFROM\b/gi, 4],
+        [/\b(INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/gi, 4],
+        [/\bCREATE\s+(TABLE|INDEX|VIEW|UNIQUE)\b/gi, 5],
+        [/\b(WHERE|GROUP\s+BY|ORDER\s+BY|INNER\s+JOIN|LEFT\s+JOIN)\b/gi, 1],
+    ],
+    bash: [
+        [/^#!\/(usr\/)?bin\/(env\s+)?(ba)?sh/gm, 8],
+        [/^[ \t]*(if|while)\s+\[\[?\s/gm, 3],
+        [/^[ \t]*(fi|done|esac)[ \t]*$/gm, 3],
+        [/\$\{?\w+\}?/g, 1],
+        [/^[ \t]*(echo|export|sudo|apt-get|npm|cd|mkdir)\s/gm, 2],
+    ],
+    html: [
+        [/<!DOCTYPE\s+html>/gi, 8],
+        [/<\/?(html|head|body|div|span|p|a|ul|li|script|section)(\s[^>]*)?>/gi, 2],
+    ],
+    css: [
+        [/^[ \t]*[.#:\w-][^{};\n]*\{[ \t]*$/gm, 2],
+        [/^[ \t]*[\w-]+\s*:\s*[^;{}]+;[ \t]*$/gm, 2],
+        [/@media\s|@import\s|@keyframes\s/g, 4],
+    ],
+    json: [
+        [/^[ \t]*[\[{][ \t]*$/gm, 1],
+        [/^[ \t]*"[^"]+"\s*:\s*/gm, 2],
+    ],
+    yaml: [
+        [/^[ \t]*[\w-]+:[ \t]*$/gm, 2],
+        [/^[ \t]*-\s+[\w-]+:\s/gm, 2],
+        [/^---[ \t]*$/gm, 3],
+    ],
+    markdown: [
+        [/^#{1,6}\s+\S/gm, 3],
+        [/^```/gm, 3],
+        [/\[[^\]\n]{1,200}\]\([^)\n]{1,500}\)/g, 2],
+        [/^[ \t]*[-*]\s+\S/gm, 1],
+    ],
+    dockerfile: [
+        [/^FROM\s+[\w./:-]+/gm, 5],
+        [/^(RUN|COPY|ADD|WORKDIR|EXPOSE|CMD|ENTRYPOINT|ENV)\s/gm, 3],
+    ],
+};
+
+// highlight.js names for languages that are spelled differently in snippets.
+const HIGHLIGHTER_ALIASES: Record<string, string> = {
+    xml: 'html',
+    shell: 'bash',
+    plaintext: 'text',
+};
+
+const HIGHLIGHTER_LANGUAGES = [
+    'javascript', 'typescript', 'python', 'java', 'go', 'rust', 'ruby', 'php', 'c', 'cpp', 'csharp',
+    'kotlin', 'swift', 'sql', 'bash', 'shell', 'xml', 'css', 'json', 'yaml', 'markdown', 'dockerfile',
+    'lua', 'perl', 'r', 'scala', 'dart', 'elixir', 'haskell',
+];
+
+const HIGHLIGHTER_SAMPLE_SIZE = 2000;
+
+// Signals are only matched against the start of the content, which keeps detection cheap on large files.
+const DETECTION_SAMPLE_SIZE = 10000;
+
+// Each signal counts at most this many times, so long files don't drown out rarer, stronger signals.
+const MAX_MATCHES_PER_SIGNAL = 5;
+
+// Total signal weight at which a detection is considered fully certain.
+const CONFIDENT_SCORE = 12;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const scoreSignals = (content: string, signals: Signal[]) =>
+    signals.reduce((score, [pattern, weight]) => {
+        const matches = content.match(pattern)?.length ?? 0;
+        return score + Math.min(matches, MAX_MATCHES_PER_SIGNAL) * weight;
+    }, 0);
+
+// Scores every language against a sample of the content; JSON is only considered when the whole content actually parses.
+const scoreLanguages = (sample: string, content: string) => {
+    const scores: Record<string, number> = {};
+
+    const javascript = scoreSignals(sample, JAVASCRIPT_SIGNALS);
+    const typescriptOnly = scoreSignals(sample, TYPESCRIPT_SIGNALS);
+    scores.javascript = javascript;
+    scores.typescript = typescriptOnly > 0 ? javascript + typescriptOnly : 0;
+
+    for (const [language, signals] of Object.entries(LANGUAGE_SIGNALS)) {
+        scores[language] = scoreSignals(sample, signals);
+    }
+
+    if (scores.json > 0) {
+        try {
+            JSON.parse(content);
+            scores.json += CONFIDENT_SCORE;
+        } catch {
+            scores.json = 0;
+        }
+    }
+
+    return scores;
+};
+
+/**
+ * Detects the programming language of a piece of code.
+ * A known file extension wins outright; otherwise weighted syntax signals are scored per
+ * language, falling back to highlight.js auto-detection when no signal matches.
+ * @param {string} content - The source code.
+ * @param {string} [filename] - The file's name, if known.
+ * @returns {LanguageDetection} The best guess with a 0-1 confidence and the runner-up languages.
+ */
+export const detectLanguage = (content: string, filename?: string): LanguageDetection => {
+    const fromFilename = filename ? getLanguageFromFilename(filename) : null;
+    if (fromFilename) {
+        return { language: fromFilename, confidence: 0.95, source: 'filename', alternatives: [] };
+    }
+
+    const ranked = Object.entries(scoreLanguages(content.slice(0, DETECTION_SAMPLE_SIZE), content))
+        .filter(([, score]) => score > 0)
+        .sort((a, b) => b[1] - a[1]);
+
+    if (ranked.length > 0) {
+        const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+        // Confidence reflects both how dominant the winner is and how much evidence there was
+        const confidenceOf = (score: number) => round((score / total) * Math.min(1, score / CONFIDENT_SCORE));
+        const [[language, score], ...rest] = ranked;
+        return {
+            language,
+            confidence: confidenceOf(score),
+            source: 'heuristics',
+            alternatives: rest.slice(0, 3).map(([alternative, altScore]) => ({
+                language: alternative,
+                confidence: confidenceOf(altScore),
+            })),
+        };
+    }
+
+    // Auto-highlighting is costly, so only a sample is checked, against the languages we recognise
+    const auto = hljs.highlightAuto(content.slice(0, HIGHLIGHTER_SAMPLE_SIZE), HIGHLIGHTER_LANGUAGES);
+    if (auto.language && auto.relevance > 0) {
+        const language = HIGHLIGHTER_ALIASES[auto.language] || auto.language;
+        return {
+            language,
+            confidence: round(Math.min(0.5, auto.relevance / 20)),
+            source: 'highlighter',
+            alternatives: [],
+        };
+    }
+
+    return { language: 'text', confidence: 0, source: 'fallback', alternatives: [] };
+};
+
+// Standard-library modules that say nothing about a snippet's topic.
+const BUILTIN_MODULES = new Set([
+    // Node.js
+    'fs', 'path', 'os', 'http', 'https', 'url', 'util', 'crypto', 'events', 'stream', 'child_process',
+    'buffer', 'assert', 'net', 'zlib', 'readline', 'process', 'querystring', 'worker_threads',
+    // Python
+    'os', 'sys', 're', 'json', 'math', 'time', 'datetime', 'random', 'collections', 'itertools',
+    'functools', 'typing', 'subprocess', 'pathlib', 'logging', 'dataclasses', 'abc', 'io', 'string',
+    // Go
+    'fmt', 'strings', 'strconv', 'errors', 'sync', 'context', 'io/ioutil', 'bufio', 'sort', 'bytes',
+]);
+
+// Package names that are better known by another tag.
+const PACKAGE_TAGS: Record<string, string> = {
+    'react-dom': 'react',
+    'next': 'nextjs',
+    'vue': 'vue',
+    '@angular/core': 'angular',
+    '@prisma/client': 'prisma',
+    'socket.io': 'socketio',
+    'socket.io-client': 'socketio',
+    'sklearn': 'scikit-learn',
+    'bs4': 'beautifulsoup',
+    'cv2': 'opencv',
+    'torch': 'pytorch',
+    'tensorflow': 'tensorflow',
+    'net/http': 'http',
+    'database/sql': 'sql',
+    'encoding/json': 'json',
+    'tokio': 'async',
+    'serde': 'serialization',
+};
+
+// Topics recognised from what the code does rather than what it imports.
+const TOPIC_SIGNALS: [RegExp, string][] = [
+    [/\basync\b|\bawait\b|\bPromise\b|\basyncio\b/, 'async'],
+    [/\bfetch\(|\baxios\b|\brequests\.(get|post)\b|\bXMLHttpRequest\b/, 'http'],
+    [/\bnew RegExp\(|\bre\.(compile|match|search|sub)\(|\/\^?[^/\n]*\\[dws][^/\n]*\/[gimsuy]*/, 'regex'],
+    [/\b(describe|it|test)\(\s*['"]|\bexpect\(|\bassert\w*\(|\bunittest\b|\bpytest\b/, 'testing'],
+    [/\bSELECT\b[\s\S]+?\bFROM\b|\bINSERT\s+INTO\b/i, 'sql'],
+    [/\b(app|router)\.(get|post|put|delete)\(/, 'api'],
+    [/\bdocument\.(querySelector|getElementById)|\baddEventListener\(/, 'dom'],
+    [/\buse(State|Effect|Memo|Callback|Ref)\(/, 'react-hooks'],
+    [/\bclass\s+\w+/, 'oop'],
+    [/\.(map|filter|reduce)\(/, 'functional'],
+    [/\bsort(ed)?\(|\bbinary\s*search\b|\brecurs/i, 'algorithms'],
+];
+
+// Extracts the package names a snippet imports, across the common import syntaxes.
+const extractImports = (content: string) => {
+    const patterns = [
+        /^[ \t]*import\s+(?:[\w*{}\s,]+\s+from\s+)?['"]([^'"]+)['"]/gm, // ES modules
+        /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g, // CommonJS
+        /^[ \t]*from\s+([\w.]+)\s+import\b/gm, // Python from-imports
+        /^[ \t]*import\s+([\w.]+)(?:\s+as\s+\w+)?[ \t]*$/gm, // Python/Java imports
+        /^[ \t]*(?:import\s+)?"([\w./-]+)"[ \t]*$/gm, // Go (single and grouped)
+        /^[ \t]*use\s+(\w+)::/gm, // Rust
+    ];
+
+    const imports = new Set<string>();
+    for (const pattern of patterns) {
+        for (const match of content.matchAll(pattern)) {
+            imports.add(match[1]);
+        }
+    }
+    return [...imports];
+};
+
+// Turns an import path into the tag for its package, or null for relative and standard-library imports.
+const packageToTag = (importPath: string) => {
+    if (importPath.startsWith('.') || importPath.startsWith('/') || importPath.startsWith('node:')) {
+        return null;
+    }
+    if (PACKAGE_TAGS[importPath]) {
+        return PACKAGE_TAGS[importPath];
+    }
+    if (BUILTIN_MODULES.has(importPath) || ['std', 'crate', 'super', 'java', 'javax'].includes(importPath.split(/[./]/)[0])) {
+        return null;
+    }
+    // Go module paths (github.com/org/pkg) are tagged by their last segment; scoped npm
+    // packages and dotted module paths by their top-level name
+    const segments = importPath.split('/');
+    const name = segments.length > 1 && segments[0].includes('.')
+        ? segments[segments.length - 1]
+        : importPath.startsWith('@') ? segments[0].slice(1) : importPath.split(/[./]/)[0];
+    if (BUILTIN_MODULES.has(name)) {
+        return null;
+    }
+    return PACKAGE_TAGS[name] || name;
+};
+
+/**
+ * Suggests tags for a snippet from its detected languages, imported packages and recognisable topics.
+ * Tags are normalized the same way snippet tags are (trimmed, lowercase, at most 50 characters, 10 tags).
+ */
+export const suggestTags = (files: { language: string; content: string }[]) => {
+    const tags: string[] = [];
+    const add = (tag: string | null) => {
+        const clean = tag?.trim().toLowerCase();
+        if (clean && clean.length <= 50 && clean !== 'text' && !tags.includes(clean)) {
+            tags.push(clean);
+        }
+    };
+
+    const samples = files.map(file => file.content.slice(0, DETECTION_SAMPLE_SIZE));
+    files.forEach(file => add(file.language));
+    samples.forEach(sample => extractImports(sample).forEach(importPath => add(packageToTag(importPath))));
+    for (const [pattern, tag] of TOPIC_SIGNALS) {
+        if (samples.some(sample => pattern.test(sample))) {
+            add(tag);
+        }
+    }
+
+    return tags.slice(0, 10);
+};
+
+/**
+ * Resolves `language: "auto"` for a file to the detected language; other languages pass through unchanged.
+ */
+export const resolveFileLanguage = <T extends { filename?: string; language: string; content: string }>(file: T): T =>
+    file.language.toLowerCase() === AUTO_LANGUAGE
+        ? { ...file, language: detectLanguage(file.content, file.filename).language }
+        : file;
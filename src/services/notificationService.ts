@@ -11,6 +11,7 @@ interface NotificationData {
     docId?: string;
     bugId?: string;
     commentId?: string;
+    collectionId?: string;
 }
 
 /**
@@ -45,6 +46,22 @@ export const createNotification = async (data: NotificationData) => {
     io.to(data.recipientId).emit('new_notification', notification);
 };
 
+/**
+ * Sends the same notification to every follower of a user, e.g. when they publish something new.
+ * @param {string} senderId - The user whose followers should be notified.
+ * @param data - The notification type and the content it refers to.
+ */
+export const notifyFollowers = async (senderId: string, data: Omit<NotificationData, 'recipientId' | 'senderId'>) => {
+    const followers = await prisma.follow.findMany({
+        where: { followingId: senderId },
+        select: { followerId: true },
+    });
+
+    await Promise.all(followers.map(follow =>
+        createNotification({ ...data, recipientId: follow.followerId, senderId })
+    ));
+};
+
 // --- Your other notification functions remain unchanged ---
 
 export const getNotifications = async (userId: string, page: number, limit: number) => {
@@ -84,6 +101,12 @@ export const getNotifications = async (userId: string, page: number, limit: numb
                     content: true,
                 },
             },
+            collection: {
+                select: {
+                    id: true,
+                    title: true,
+                },
+            },
         },
         orderBy: { createdAt: 'desc' },
         skip,
@@ -0,0 +1,147 @@
+import { PublishStatus, Visibility } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/db';
+import { emitToFollowers } from '../socket';
+import { notifyNewChapter } from './docSeriesService';
+
+// Shared by the snippet and doc schemas. Giving only `publishAt` schedules the content.
+export const publishStateFields = {
+    status: z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED']).optional(),
+    publishAt: z.coerce.date().nullable().optional(),
+};
+
+type PublishInput = {
+    status?: PublishStatus;
+    publishAt?: Date | null;
+};
+
+type PublishState = {
+    status: PublishStatus;
+    publishAt: Date | null;
+    publishedAt: Date | null;
+};
+
+type CurrentPublishState = {
+    status: PublishStatus;
+    publishAt: Date | null;
+    publishedAt: Date | null;
+};
+
+/**
+ * Works out the lifecycle fields to store for a create or update payload.
+ * New content is published immediately unless it's saved as a draft or scheduled;
+ * on update, the current status and schedule are kept when the payload doesn't change them.
+ * @returns The state to store, or an error message for an invalid schedule.
+ */
+export const resolvePublishState = (
+    input: PublishInput,
+    current?: CurrentPublishState
+): { state: PublishState; error?: undefined } | { error: string; state?: undefined } => {
+    const status = input.status ?? (input.publishAt ? 'SCHEDULED' : current?.status ?? 'PUBLISHED');
+    // Only a newly given date has to be in the future; a kept one is about to be published anyway
+    const publishAt = input.publishAt !== undefined ? input.publishAt : current?.publishAt ?? null;
+
+    if (status === 'SCHEDULED' && (!publishAt || (input.publishAt !== undefined && publishAt <= new Date()))) {
+        return { error: 'Scheduled content needs a publishAt date in the future' };
+    }
+
+    return {
+        state: {
+            status,
+            publishAt: status === 'SCHEDULED' ? publishAt : null,
+            // Keep the original publish date when content is re-saved or archived
+            publishedAt: current?.publishedAt ?? (status === 'PUBLISHED' ? new Date() : null),
+        },
+    };
+};
+
+/**
+ * Whether saving content moves it from unpublished (new, draft or scheduled) to published,
+ * which is when followers should hear about it.
+ */
+export const isNewlyPublished = (status: PublishStatus, previousStatus?: PublishStatus) =>
+    status === 'PUBLISHED' && (!previousStatus || previousStatus === 'DRAFT' || previousStatus === 'SCHEDULED');
+
+/**
+ * Pushes a newly published snippet to followers' feeds.
+ */
+export const announceSnippet = (snippet: { authorId: string; visibility: Visibility }) => {
+    if (snippet.visibility === 'PUBLIC') {
+        emitToFollowers(snippet.authorId, 'new-snippet', snippet);
+    }
+};
+
+/**
+ * Pushes a newly published doc to followers' feeds and, for series chapters, notifies them.
+ */
+export const announceDoc = async (doc: { id: string; authorId: string; visibility: Visibility; status: PublishStatus; seriesId: string | null }) => {
+    if (doc.visibility === 'PUBLIC') {
+        emitToFollowers(doc.authorId, 'new-doc', doc);
+    }
+    if (doc.seriesId) {
+        await notifyNewChapter(doc);
+    }
+};
+
+const authorSelect = { id: true, username: true, name: true, avatar: true };
+
+/**
+ * Publishes every snippet and doc whose scheduled time has passed, then announces them.
+ * Each item is claimed with a status-guarded update, so an item is never announced twice
+ * even if runs overlap.
+ * @returns The number of snippets and docs published.
+ */
+export const publishScheduledContent = async () => {
+    const now = new Date();
+    const due = { status: 'SCHEDULED' as const, publishAt: { lte: now } };
+
+    const [snippets, docs] = await Promise.all([
+        prisma.snippet.findMany({ where: due, select: { id: true } }),
+        prisma.doc.findMany({ where: due, select: { id: true } }),
+    ]);
+
+    let published = 0;
+
+    for (const { id } of snippets) {
+        const claimed = await prisma.snippet.updateMany({
+            where: { id, ...due },
+            data: { status: 'PUBLISHED', publishedAt: now, publishAt: null },
+        });
+        if (claimed.count === 0) continue;
+
+        const snippet = await prisma.snippet.findUnique({
+            where: { id },
+            include: {
+                files: { orderBy: { position: 'asc' }, select: { id: true, filename: true, language: true, content: true, position: true } },
+                author: { select: { ...authorSelect, bio: true } },
+                _count: { select: { likes: true, comments: true, bookmarks: true, forks: true } },
+            },
+        });
+        if (snippet) {
+            announceSnippet(snippet);
+            published++;
+        }
+    }
+
+    for (const { id } of docs) {
+        const claimed = await prisma.doc.updateMany({
+            where: { id, ...due },
+            data: { status: 'PUBLISHED', publishedAt: now, publishAt: null },
+        });
+        if (claimed.count === 0) continue;
+
+        const doc = await prisma.doc.findUnique({
+            where: { id },
+            include: {
+                author: { select: authorSelect },
+                _count: { select: { likes: true, comments: true, bookmarks: true } },
+            },
+        });
+        if (doc) {
+            await announceDoc(doc);
+            published++;
+        }
+    }
+
+    return published;
+};
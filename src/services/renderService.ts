@@ -0,0 +1,215 @@
+import { Marked, Parser, Token, Tokens } from 'marked';
+import hljs from 'highlight.js';
+import { createSlugger } from '../utils/slug';
+
+type RenderKind = 'doc' | 'snippet';
+
+type CacheEntry = {
+    updatedAt: number;
+    html: string;
+};
+
+// Upper bound on cached renders; the oldest entry is evicted first.
+const MAX_CACHE_ENTRIES = 500;
+
+const renderCache = new Map<string, CacheEntry>();
+
+// Only these URL schemes (plus relative links) survive rendering.
+const SAFE_URL_PATTERN = /^(https?:|mailto:|\/|#|\.\/|\.\.\/)/i;
+
+export const escapeHtml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+export const unescapeHtml = (html: string) =>
+    html
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+
+const isSafeUrl = (url: string) => SAFE_URL_PATTERN.test(url.trim());
+
+// Plain text of a rendered heading, which its slug is derived from.
+const headingText = (html: string) => unescapeHtml(html.replace(/<[^>]*>/g, '')).trim();
+
+// Slugs for the document currently being rendered; reset before each parse.
+let headingSlug = createSlugger();
+
+/**
+ * Highlights source code for the given language, falling back to plain escaped text
+ * when highlight.js doesn't know the language.
+ */
+export const highlightCode = (code: string, language?: string | null) => {
+    const lang = language?.toLowerCase().trim();
+    if (lang && hljs.getLanguage(lang)) {
+        return hljs.highlight(code, { language: lang, ignoreIllegals: true }).value;
+    }
+    return escapeHtml(code);
+};
+
+// Markdown renderer that highlights fenced code and strips anything that could run script:
+// raw HTML is escaped rather than passed through, and links/images must use a safe scheme.
+// Headings get the same ids as the slugs in the doc's stored table of contents, for deep links.
+const markdown = new Marked({
+    gfm: true,
+    hooks: {
+        preprocess(content: string) {
+            headingSlug = createSlugger();
+            return content;
+        },
+    },
+    renderer: {
+        heading(text: string, level: number) {
+            return `<h${level} id="${escapeHtml(headingSlug(headingText(text)))}">${text}</h${level}>\n`;
+        },
+        code(code: string, infostring: string | undefined) {
+            const lang = (infostring || '').match(/^\S*/)?.[0] || '';
+            const langClass = lang ? ` language-${escapeHtml(lang)}` : '';
+            return `<pre><code class="hljs${langClass}">${highlightCode(code, lang)}</code></pre>\n`;
+        },
+        html(html: string) {
+            return escapeHtml(html);
+        },
+        link(href: string, title: string | null | undefined, text: string) {
+            if (!isSafeUrl(href)) {
+                return text;
+            }
+            const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+            return `<a href="${escapeHtml(href)}"${titleAttr} rel="noopener noreferrer nofollow">${text}</a>`;
+        },
+        image(href: string, title: string | null, text: string) {
+            if (!isSafeUrl(href)) {
+                return escapeHtml(text);
+            }
+            const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+            return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttr}>`;
+        },
+    },
+});
+
+/**
+ * Renders Markdown to sanitized HTML.
+ */
+export const renderMarkdown = (content: string) => markdown.parse(content, { async: false }) as string;
+
+/**
+ * Splits Markdown into tokens with the same options used for rendering.
+ */
+export const lexMarkdown = (content: string) => markdown.lexer(content);
+
+/**
+ * Visits every token, nested ones included, in document order.
+ */
+export const walkMarkdownTokens = (tokens: Token[], callback: (token: Token) => void) => {
+    markdown.walkTokens(tokens, callback);
+};
+
+/**
+ * Plain text of a heading token exactly as the renderer sees it, so slugs computed
+ * from tokens match the ids in the rendered HTML.
+ */
+export const getHeadingText = (heading: Tokens.Heading) =>
+    headingText(Parser.parseInline(heading.tokens, markdown.defaults));
+
+/**
+ * Renders a snippet's code as a highlighted HTML block.
+ */
+export const renderSnippetCode = (content: string, language: string) => {
+    const lang = escapeHtml(language.toLowerCase());
+    return `<pre><code class="hljs language-${lang}">${highlightCode(content, language)}</code></pre>`;
+};
+
+/**
+ * Renders every file of a multi-file snippet, each under a header with its filename.
+ */
+export const renderSnippetFiles = (files: { filename: string; language: string; content: string }[]) =>
+    files
+        .map(file => [
+            `<div class="snippet-file" data-filename="${escapeHtml(file.filename)}">`,
+            `<div class="snippet-filename">${escapeHtml(file.filename)}</div>`,
+            renderSnippetCode(file.content, file.language),
+            '</div>',
+        ].join(''))
+        .join('\n');
+
+// Minimal highlight.js theme inlined into embeds so they don't depend on any external stylesheet.
+const EMBED_STYLES = `
+.cg-embed{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Helvetica,Arial,sans-serif;border:1px solid #d0d7de;border-radius:6px;overflow:hidden;background:#fff;color:#1f2328;margin:0}
+.cg-embed .snippet-filename{font-size:12px;padding:6px 12px;background:#f6f8fa;border-bottom:1px solid #d0d7de;font-weight:600}
+.cg-embed pre{margin:0;padding:12px;overflow:auto;font-size:13px;line-height:1.45}
+.cg-embed code{font-family:ui-monospace,SFMono-Regular,Menlo,Consolas,monospace}
+.cg-embed .cg-embed-footer{font-size:12px;padding:6px 12px;background:#f6f8fa;border-top:1px solid #d0d7de;display:flex;justify-content:space-between}
+.cg-embed .cg-embed-footer a{color:#0969da;text-decoration:none}
+.cg-embed .hljs-keyword,.cg-embed .hljs-selector-tag,.cg-embed .hljs-built_in{color:#cf222e}
+.cg-embed .hljs-string,.cg-embed .hljs-attr,.cg-embed .hljs-regexp{color:#0a3069}
+.cg-embed .hljs-number,.cg-embed .hljs-literal,.cg-embed .hljs-variable{color:#0550ae}
+.cg-embed .hljs-comment,.cg-embed .hljs-quote{color:#6e7781;font-style:italic}
+.cg-embed .hljs-title,.cg-embed .hljs-function,.cg-embed .hljs-class{color:#8250df}
+.cg-embed .hljs-type,.cg-embed .hljs-tag,.cg-embed .hljs-name{color:#116329}
+`.trim();
+
+/**
+ * Renders a snippet as a self-contained embeddable fragment (inline styles, no external assets).
+ */
+export const renderSnippetEmbed = (snippet: {
+    id: string;
+    title: string;
+    author: { username: string };
+    files: { filename: string; language: string; content: string }[];
+}) => {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const snippetUrl = `${frontendUrl}/snippets/${encodeURIComponent(snippet.id)}`;
+    return [
+        `<div class="cg-embed"><style>${EMBED_STYLES}</style>`,
+        renderSnippetFiles(snippet.files),
+        '<div class="cg-embed-footer">',
+        `<span>${escapeHtml(snippet.title)} by @${escapeHtml(snippet.author.username)}</span>`,
+        `<a href="${escapeHtml(snippetUrl)}" target="_blank" rel="noopener noreferrer">View on CodeGram</a>`,
+        '</div></div>',
+    ].join('');
+};
+
+const getCached = (kind: RenderKind, id: string, updatedAt: Date, render: () => string) => {
+    const key = `${kind}:${id}`;
+    const cached = renderCache.get(key);
+    if (cached && cached.updatedAt === updatedAt.getTime()) {
+        return cached.html;
+    }
+
+    const html = render();
+    renderCache.delete(key);
+    renderCache.set(key, { updatedAt: updatedAt.getTime(), html });
+    if (renderCache.size > MAX_CACHE_ENTRIES) {
+        const oldestKey = renderCache.keys().next().value;
+        if (oldestKey) renderCache.delete(oldestKey);
+    }
+    return html;
+};
+
+/**
+ * Returns the rendered HTML for a doc, reusing the cached render while the doc is unchanged.
+ */
+export const getDocHtml = (doc: { id: string; content: string; updatedAt: Date }) =>
+    getCached('doc', doc.id, doc.updatedAt, () => renderMarkdown(doc.content));
+
+/**
+ * Returns the highlighted HTML for all files of a snippet, reusing the cached render while the snippet is unchanged.
+ */
+export const getSnippetHtml = (snippet: {
+    id: string;
+    updatedAt: Date;
+    files: { filename: string; language: string; content: string }[];
+}) => getCached('snippet', snippet.id, snippet.updatedAt, () => renderSnippetFiles(snippet.files));
+
+/**
+ * Drops the cached render for a doc or snippet after it has been edited or deleted.
+ */
+export const invalidateRender = (kind: RenderKind, id: string) => {
+    renderCache.delete(`${kind}:${id}`);
+};
@@ -0,0 +1,24 @@
+import { prisma } from '../config/db';
+
+// Points earned each time a bug author accepts someone's comment as the solution.
+const ACCEPTED_ANSWER_POINTS = 15;
+
+/**
+ * Works out a user's reputation from the answers of theirs that were accepted on other
+ * people's bug reports. It's derived rather than stored, so it follows answers being
+ * unaccepted or deleted.
+ * @param {string} userId - The user whose reputation to compute.
+ */
+export const getUserReputation = async (userId: string) => {
+    const acceptedAnswers = await prisma.bug.count({
+        where: {
+            acceptedAnswer: { authorId: userId },
+            authorId: { not: userId },
+        },
+    });
+
+    return {
+        points: acceptedAnswers * ACCEPTED_ANSWER_POINTS,
+        acceptedAnswers,
+    };
+};
@@ -0,0 +1,293 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export type SandboxRuntime = 'javascript' | 'typescript' | 'python';
+
+export type SandboxStream = 'stdout' | 'stderr';
+
+export type SandboxResult = {
+    runId: string;
+    runtime: SandboxRuntime;
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    signal: string | null;
+    timedOut: boolean;
+    truncated: boolean;
+    durationMs: number;
+};
+
+type RunOptions = {
+    stdin?: string;
+    // Called with each chunk of output as it is produced, for live streaming.
+    onOutput?: (chunk: { runId: string; stream: SandboxStream; data: string }) => void;
+};
+
+// Limits are configurable per deployment; the defaults suit small demo snippets.
+const TIMEOUT_MS = parseInt(process.env.SANDBOX_TIMEOUT_MS || '5000');
+const CPU_SECONDS = parseInt(process.env.SANDBOX_CPU_SECONDS || '3');
+const MEMORY_MB = parseInt(process.env.SANDBOX_MEMORY_MB || '128');
+const MAX_PROCESSES = parseInt(process.env.SANDBOX_MAX_PROCESSES || '16');
+const MAX_FILE_MB = parseInt(process.env.SANDBOX_MAX_FILE_MB || '1');
+const MAX_OUTPUT_BYTES = parseInt(process.env.SANDBOX_MAX_OUTPUT_BYTES || '65536');
+const MAX_CONCURRENT_RUNS = parseInt(process.env.SANDBOX_MAX_CONCURRENT || '2');
+const PYTHON_BINARY = process.env.SANDBOX_PYTHON || '/usr/bin/python3';
+
+// nsjail runs every snippet; without it configured, running code is disabled.
+const NSJAIL_BINARY = process.env.SANDBOX_NSJAIL;
+// The host uid/gid the snippet runs as: mapped with newuidmap/newgidmap, so they must be in the
+// server user's /etc/subuid and /etc/subgid ranges and must not own anything on the host.
+const SANDBOX_UID = parseInt(process.env.SANDBOX_UID || '100000');
+const SANDBOX_GID = parseInt(process.env.SANDBOX_GID || '100000');
+// V8 reserves this much address space before running any code, on top of the snippet's memory.
+const NODE_RESERVED_MB = parseInt(process.env.SANDBOX_NODE_RESERVED_MB || '800');
+
+// Inside the jail the snippet only sees its own files, at this path.
+const JAIL_WORKDIR = '/sandbox';
+
+// Snippet language names that map onto a runtime the sandbox can execute.
+const RUNTIME_ALIASES: Record<string, SandboxRuntime> = {
+    javascript: 'javascript',
+    js: 'javascript',
+    node: 'javascript',
+    typescript: 'typescript',
+    ts: 'typescript',
+    python: 'python',
+    py: 'python',
+    python3: 'python',
+};
+
+// Kafel seccomp policy: kills the snippet on syscalls that reach into the host or other
+// processes, and refuses any socket other than a Unix one.
+const SECCOMP_POLICY = `
+KILL {
+    ptrace, process_vm_readv, process_vm_writev, kcmp, pidfd_getfd,
+    mount, umount2, pivot_root, chroot, setns, unshare, move_mount, open_tree, fsopen, fsmount, fsconfig,
+    bpf, perf_event_open, userfaultfd, keyctl, add_key, request_key,
+    init_module, finit_module, delete_module, kexec_load, kexec_file_load,
+    open_by_handle_at, name_to_handle_at, swapon, swapoff, reboot, syslog, acct, quotactl,
+    settimeofday, clock_settime, adjtimex, personality, iopl, ioperm
+}
+ERRNO(1) {
+    socket(domain, type, protocol) { domain != 1 }
+}
+DEFAULT ALLOW
+`;
+
+let activeRuns = 0;
+
+export class SandboxBusyError extends Error {
+    constructor() {
+        super('The code runner is busy, please try again shortly');
+        this.name = 'SandboxBusyError';
+    }
+}
+
+export class SandboxUnavailableError extends Error {
+    constructor() {
+        super('Running code is not available on this server');
+        this.name = 'SandboxUnavailableError';
+    }
+}
+
+/**
+ * Maps a snippet language to the sandbox runtime that executes it, or null if it can't be run.
+ */
+export const getSandboxRuntime = (language: string): SandboxRuntime | null =>
+    RUNTIME_ALIASES[language.toLowerCase().trim()] || null;
+
+export const getSupportedLanguages = () => Object.keys(RUNTIME_ALIASES);
+
+// Strips TypeScript syntax so the result can run under the JavaScript runtime.
+// The compiler is loaded lazily so the rest of the app doesn't pay for it.
+const transpileTypeScript = async (code: string) => {
+    const ts = (await import('typescript')).default;
+    return ts.transpileModule(code, {
+        compilerOptions: {
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.ESNext,
+        },
+    }).outputText;
+};
+
+const usesEsModuleSyntax = (code: string) => /^[ \t]*(import|export)\s/m.test(code);
+
+// Writes the snippet into a fresh working directory and returns the command that runs it in the jail.
+const prepareRun = async (runtime: SandboxRuntime, code: string, workDir: string) => {
+    if (runtime === 'python') {
+        await fs.writeFile(path.join(workDir, 'snippet.py'), code);
+        return {
+            command: PYTHON_BINARY,
+            args: ['-I', '-B', 'snippet.py'],
+            memoryMb: MEMORY_MB,
+            mounts: [] as string[],
+        };
+    }
+
+    const source = runtime === 'typescript' ? await transpileTypeScript(code) : code;
+    const filename = runtime === 'typescript' || usesEsModuleSyntax(source) ? 'snippet.mjs' : 'snippet.cjs';
+    await fs.writeFile(path.join(workDir, filename), source);
+
+    // The permission model is a second layer inside the jail: no child processes, workers,
+    // native addons or file access outside the working directory.
+    return {
+        command: process.execPath,
+        args: [
+            '--experimental-permission',
+            `--allow-fs-read=${JAIL_WORKDIR}`,
+            `--max-old-space-size=${MEMORY_MB}`,
+            '--no-warnings',
+            filename,
+        ],
+        memoryMb: MEMORY_MB + NODE_RESERVED_MB,
+        mounts: [path.dirname(process.execPath)],
+    };
+};
+
+/**
+ * Wraps a command in nsjail. The snippet runs as an unprivileged uid of its own, in new PID,
+ * network (no interfaces up), mount, IPC and UTS namespaces, under a seccomp policy and
+ * rlimits on address space, CPU time, processes, file size and open files. Its root is a
+ * read-only tmpfs holding only the system libraries, the runtime and its working directory,
+ * with a small writable /tmp and no /proc.
+ */
+const jailCommand = (run: Awaited<ReturnType<typeof prepareRun>>, workDir: string) => {
+    const systemMounts = ['/usr', '/lib', '/lib64', '/bin'];
+    const runtimeMounts = run.mounts.filter(mount => !systemMounts.some(system => mount.startsWith(`${system}/`)));
+    const readOnlyMounts = [...systemMounts, ...runtimeMounts]
+        .filter(mount => existsSync(mount))
+        .flatMap(mount => ['--bindmount_ro', mount]);
+
+    return [
+        '--mode', 'o',
+        '--quiet',
+        '--use_newidmap',
+        '--uid_mapping', `65534:${SANDBOX_UID}:1`,
+        '--gid_mapping', `65534:${SANDBOX_GID}:1`,
+        '--user', '65534',
+        '--group', '65534',
+        '--hostname', 'sandbox',
+        '--iface_no_lo',
+        '--disable_proc',
+        ...readOnlyMounts,
+        '--bindmount_ro', `${workDir}:${JAIL_WORKDIR}`,
+        '--tmpfsmount', '/tmp',
+        '--cwd', JAIL_WORKDIR,
+        '--time_limit', String(Math.ceil(TIMEOUT_MS / 1000) + 1),
+        '--rlimit_as', String(run.memoryMb),
+        '--rlimit_cpu', String(CPU_SECONDS),
+        '--rlimit_nproc', String(MAX_PROCESSES),
+        '--rlimit_fsize', String(MAX_FILE_MB),
+        '--rlimit_nofile', '64',
+        '--rlimit_core', '0',
+        '--seccomp_string', SECCOMP_POLICY,
+        '--env', 'LANG=C.UTF-8',
+        '--env', `HOME=${JAIL_WORKDIR}`,
+        '--',
+        run.command,
+        ...run.args,
+    ];
+};
+
+/**
+ * Runs a piece of code isolated from the host (see jailCommand) and collects its output.
+ * The process gets its own working directory, a minimal environment, no network access,
+ * a CPU-time limit, a memory cap and a wall-clock timeout after which it is killed.
+ * @param {SandboxRuntime} runtime - The runtime to execute the code with.
+ * @param {string} code - The source code to run.
+ * @param {RunOptions} [options] - Optional stdin and a callback for streaming output.
+ * @throws {SandboxUnavailableError} When no jail is configured (SANDBOX_NSJAIL).
+ * @throws {SandboxBusyError} When the maximum number of concurrent runs is already in progress.
+ */
+export const runCode = async (runtime: SandboxRuntime, code: string, options: RunOptions = {}): Promise<SandboxResult> => {
+    if (!NSJAIL_BINARY) {
+        throw new SandboxUnavailableError();
+    }
+    if (activeRuns >= MAX_CONCURRENT_RUNS) {
+        throw new SandboxBusyError();
+    }
+    activeRuns++;
+
+    const runId = crypto.randomUUID();
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codegram-run-'));
+
+    try {
+        const run = await prepareRun(runtime, code, workDir);
+        // The jail's uid has to be able to read the snippet
+        await fs.chmod(workDir, 0o755);
+
+        return await new Promise<SandboxResult>((resolve, reject) => {
+            const startedAt = process.hrtime.bigint();
+            const output: Record<SandboxStream, string> = { stdout: '', stderr: '' };
+            let outputBytes = 0;
+            let truncated = false;
+            let timedOut = false;
+
+            const child = spawn(NSJAIL_BINARY, jailCommand(run, workDir), {
+                cwd: workDir,
+                env: { PATH: '/usr/bin:/bin' },
+                stdio: ['pipe', 'pipe', 'pipe'],
+                detached: true,
+            });
+
+            const killChild = () => {
+                try {
+                    // Killing nsjail takes the jail's PID namespace, and everything in it, down too.
+                    if (child.pid) process.kill(-child.pid, 'SIGKILL');
+                } catch {
+                    child.kill('SIGKILL');
+                }
+            };
+
+            const timer = setTimeout(() => {
+                timedOut = true;
+                killChild();
+            }, TIMEOUT_MS);
+
+            const collect = (stream: SandboxStream) => (chunk: Buffer) => {
+                if (truncated) return;
+                const remaining = MAX_OUTPUT_BYTES - outputBytes;
+                const data = chunk.length > remaining ? chunk.subarray(0, remaining).toString() : chunk.toString();
+                outputBytes += Math.min(chunk.length, remaining);
+                output[stream] += data;
+                options.onOutput?.({ runId, stream, data });
+                if (chunk.length > remaining) {
+                    truncated = true;
+                    killChild();
+                }
+            };
+
+            child.stdout.on('data', collect('stdout'));
+            child.stderr.on('data', collect('stderr'));
+            child.stdin.on('error', () => { /* the process may exit before reading its input */ });
+            child.stdin.end(options.stdin ?? '');
+
+            child.on('error', (error) => {
+                clearTimeout(timer);
+                reject(error);
+            });
+
+            child.on('close', (exitCode, signal) => {
+                clearTimeout(timer);
+                resolve({
+                    runId,
+                    runtime,
+                    stdout: output.stdout,
+                    stderr: output.stderr,
+                    exitCode,
+                    signal,
+                    timedOut,
+                    truncated,
+                    durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+                });
+            });
+        });
+    } finally {
+        activeRuns--;
+        await fs.rm(workDir, { recursive: true, force: true });
+    }
+};
@@ -0,0 +1,240 @@
+export type SecretFinding = {
+    type: string;
+    description: string;
+    line: number;
+    column: number;
+    // A shortened, masked form of the match so responses never echo the secret itself.
+    preview: string;
+    start: number;
+    end: number;
+};
+
+// The 400 `details` entry for a finding, in the same shape as validation errors.
+export type SecretFindingDetail = {
+    field: string;
+    message: string;
+    type: string;
+    line: number;
+    column: number;
+    preview: string;
+};
+
+type SecretPattern = {
+    type: string;
+    description: string;
+    pattern: RegExp;
+    // Capture group holding the secret itself, when the pattern also matches surrounding context.
+    group?: number;
+};
+
+const SECRET_PATTERNS: SecretPattern[] = [
+    {
+        type: 'private_key',
+        description: 'Private key (PEM block)',
+        pattern: /-----BEGIN ((?:RSA|DSA|EC|OPENSSH|PGP|ENCRYPTED) )?PRIVATE KEY( BLOCK)?-----(?:(?!-----)[\s\S])*-----END \1?PRIVATE KEY\2-----/g,
+    },
+    {
+        // A key pasted without its END line: the header and the key lines that follow it
+        type: 'private_key',
+        description: 'Private key (PEM block)',
+        pattern: /-----BEGIN (?:(?:RSA|DSA|EC|OPENSSH|PGP|ENCRYPTED) )?PRIVATE KEY(?: BLOCK)?-----(?:\r?\n(?:[A-Za-z0-9+\/=]{16,}|[A-Za-z-]+:[^\r\n]*)?(?![^\r\n]))*/g,
+    },
+    {
+        type: 'aws_access_key_id',
+        description: 'AWS access key ID',
+        pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA)[0-9A-Z]{16}\b/g,
+    },
+    {
+        type: 'aws_secret_access_key',
+        description: 'AWS secret access key',
+        pattern: /aws_?secret_?(?:access_?)?key['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+        group: 1,
+    },
+    {
+        type: 'github_token',
+        description: 'GitHub token',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+    },
+    {
+        type: 'jwt',
+        description: 'JSON Web Token',
+        pattern: /\beyJ[A-Za-z0-9_-]{8,2048}\.eyJ[A-Za-z0-9_-]{8,8192}\.[A-Za-z0-9_-]{10,2048}/g,
+    },
+    {
+        type: 'slack_token',
+        description: 'Slack token',
+        pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,255}\b/g,
+    },
+    {
+        type: 'stripe_key',
+        description: 'Stripe secret key',
+        pattern: /\b[sr]k_live_[A-Za-z0-9]{16,255}\b/g,
+    },
+    {
+        type: 'google_api_key',
+        description: 'Google API key',
+        pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+    },
+    {
+        type: 'credential_assignment',
+        description: 'Credential assigned in configuration',
+        pattern: /^[ \t]*(?:export[ \t]+)?[A-Za-z0-9_]{0,64}(?:SECRET|PASSWORD|PASSWD|TOKEN|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY)[A-Za-z0-9_]{0,64}[ \t]*[:=][ \t]*['"]?([^\s'"#(),;]{8,})(?=['"\s,;]|$)/gim,
+        group: 1,
+    },
+];
+
+// Values that are obviously examples rather than real credentials.
+const PLACEHOLDER_PATTERN = /^(your|my|example|sample|dummy|fake|test|changeme|placeholder|xxx|\*{3}|<|\$|\{\{|process\.env|os\.environ|env\()/i;
+
+// Quoted strings or assignment values long enough to be a generated key. `=` only ends the
+// value as base64 padding, so it can't be read as both the assignment and part of the value.
+const HIGH_ENTROPY_CANDIDATE = /(?:['"`]|[:=][ \t]*)([A-Za-z0-9+/_-]{24,512}={0,2})(?=['"`]|\s|$|[,;])/g;
+
+// Shannon entropy (bits per character) above which a candidate looks random rather than written by hand.
+const HIGH_ENTROPY_THRESHOLD = 4.3;
+
+const shannonEntropy = (value: string) => {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+};
+
+// Random keys mix character classes; long identifiers and words usually don't.
+const looksRandom = (value: string) =>
+    /[a-z]/.test(value) &&
+    /[A-Z]/.test(value) &&
+    /[0-9]/.test(value) &&
+    !/^[A-Za-z]+([_-][A-Za-z]+)*$/.test(value) &&
+    shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD;
+
+const maskSecret = (value: string) => {
+    const firstLine = value.split('\n')[0];
+    return firstLine.length <= 8 ? '*'.repeat(firstLine.length) : `${firstLine.slice(0, 4)}…${'*'.repeat(4)}`;
+};
+
+// Offsets at which each line of the text starts.
+const getLineStarts = (text: string) => {
+    const starts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) starts.push(i + 1);
+    return starts;
+};
+
+// Converts a string offset into a 1-based line and column.
+const toLineColumn = (lineStarts: number[], offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (lineStarts[middle] <= offset) low = middle;
+        else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+};
+
+/**
+ * Scans text for credentials: cloud and platform tokens, private keys, JWTs, credential
+ * assignments (.env style) and high-entropy strings. Findings are sorted by position and never overlap.
+ * @param {string} text - The content to scan.
+ * @returns {SecretFinding[]} Each finding with its 1-based line and column.
+ */
+export const scanForSecrets = (text: string): SecretFinding[] => {
+    const findings: SecretFinding[] = [];
+    const lineStarts = getLineStarts(text);
+    const overlaps = (start: number, end: number) => findings.some(finding => start < finding.end && end > finding.start);
+
+    const addFinding = (type: string, description: string, value: string, start: number) => {
+        const end = start + value.length;
+        if (overlaps(start, end)) return;
+        findings.push({ type, description, ...toLineColumn(lineStarts, start), preview: maskSecret(value), start, end });
+    };
+
+    for (const { type, description, pattern, group } of SECRET_PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+            const value = group ? match[group] : match[0];
+            if (group && PLACEHOLDER_PATTERN.test(value)) continue;
+            const start = match.index! + (group ? match[0].lastIndexOf(value) : 0);
+            addFinding(type, description, value, start);
+        }
+    }
+
+    for (const match of text.matchAll(HIGH_ENTROPY_CANDIDATE)) {
+        const value = match[1];
+        if (!looksRandom(value)) continue;
+        addFinding('high_entropy_string', 'High-entropy string (possible key or token)', value, match.index! + match[0].lastIndexOf(value));
+    }
+
+    return findings.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Replaces every secret found in the text with a `[REDACTED]` marker.
+ */
+export const redactSecrets = (text: string, findings: SecretFinding[] = scanForSecrets(text)) =>
+    [...findings]
+        .sort((a, b) => b.start - a.start)
+        .reduce((redacted, finding) => `${redacted.slice(0, finding.start)}[REDACTED]${redacted.slice(finding.end)}`, text);
+
+/**
+ * Scans several named fields at once (e.g. `content` or `files.0.content`) and returns
+ * the findings as error details pointing at the field, line and column of each secret.
+ */
+export const scanFields = (fields: { field: string; text: string }[]): SecretFindingDetail[] =>
+    fields.flatMap(({ field, text }) =>
+        scanForSecrets(text).map(finding => ({
+            field,
+            message: `Possible ${finding.description} at line ${finding.line}, column ${finding.column}`,
+            type: finding.type,
+            line: finding.line,
+            column: finding.column,
+            preview: finding.preview,
+        }))
+    );
+
+type SecretPolicyResult<K extends string> =
+    | { ok: true; fields: Record<K, string> }
+    | { ok: false; details: SecretFindingDetail[] };
+
+/**
+ * Applies the publishing policy for secrets to a set of content fields. Private content is
+ * stored as-is; content anyone else can read is rejected when it contains secrets, unless the
+ * client asked for them to be redacted, in which case the redacted text is returned instead.
+ * @param {Record<string, string>} fields - Content keyed by the request field it came from.
+ * @param {{ isPublished: boolean; redact?: boolean }} options - Whether the content will be readable by others, and whether to redact.
+ */
+export const applySecretPolicy = <K extends string>(
+    fields: Record<K, string>,
+    options: { isPublished: boolean; redact?: boolean }
+): SecretPolicyResult<K> => {
+    if (!options.isPublished) {
+        return { ok: true, fields };
+    }
+
+    const entries = Object.entries(fields) as [K, string][];
+    const details = scanFields(entries.map(([field, text]) => ({ field, text })));
+    if (details.length === 0) {
+        return { ok: true, fields };
+    }
+
+    if (options.redact) {
+        const redacted = Object.fromEntries(entries.map(([field, text]) => [field, redactSecrets(text)])) as Record<K, string>;
+        return { ok: true, fields: redacted };
+    }
+
+    return { ok: false, details };
+};
+
+/**
+ * The 400 response body for content that was rejected because it contains secrets.
+ */
+export const secretsErrorBody = (details: SecretFindingDetail[]) => ({
+    error: 'Content appears to contain secrets',
+    hint: 'Remove them, make the content private, or resubmit with "redactSecrets": true to replace them with [REDACTED]',
+    details,
+});
@@ -0,0 +1,91 @@
+import { Prisma, Snippet, SnippetRevision } from '@prisma/client';
+import { getDefaultFilename } from '../utils/languages';
+import { redactSecrets } from './secretScanService';
+
+// The snippet fields captured in every revision.
+type RevisionSource = Pick<Snippet, 'id' | 'title' | 'description' | 'content' | 'language' | 'tags'>;
+
+// A file as stored in a revision's `files` snapshot.
+export type RevisionFile = {
+    filename: string;
+    language: string;
+    content: string;
+};
+
+/**
+ * Appends an immutable revision capturing the given snippet state and its current files.
+ * Must run inside a transaction so concurrent edits can't claim the same version number.
+ * @param {Prisma.TransactionClient} tx - The transaction client to write with.
+ * @param {RevisionSource} snippet - The snippet state to snapshot.
+ * @param {string} editorId - The user who produced this state.
+ */
+export const recordSnippetRevision = async (tx: Prisma.TransactionClient, snippet: RevisionSource, editorId: string) => {
+    const [latest, files] = await Promise.all([
+        tx.snippetRevision.findFirst({
+            where: { snippetId: snippet.id },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+        }),
+        tx.snippetFile.findMany({
+            where: { snippetId: snippet.id },
+            orderBy: { position: 'asc' },
+            select: { filename: true, language: true, content: true },
+        }),
+    ]);
+
+    return tx.snippetRevision.create({
+        data: {
+            snippetId: snippet.id,
+            version: (latest?.version ?? 0) + 1,
+            title: snippet.title,
+            description: snippet.description,
+            content: snippet.content,
+            language: snippet.language,
+            tags: snippet.tags,
+            files: files.length > 0 ? files : undefined,
+            editorId,
+        },
+    });
+};
+
+/**
+ * Snapshots the current state of a snippet created before revisions existed,
+ * so its original content isn't lost on the first edit.
+ * @param {Prisma.TransactionClient} tx - The transaction client to write with.
+ * @param {RevisionSource & { authorId: string }} snippet - The snippet as currently stored.
+ */
+export const ensureBaselineRevision = async (tx: Prisma.TransactionClient, snippet: RevisionSource & { authorId: string }) => {
+    const existing = await tx.snippetRevision.count({ where: { snippetId: snippet.id } });
+    if (existing === 0) {
+        await recordSnippetRevision(tx, snippet, snippet.authorId);
+    }
+};
+
+/**
+ * Returns the files captured in a revision. Revisions recorded before multi-file
+ * snippets existed only have `content`/`language`, so they are read as a single file.
+ * @param {SnippetRevision} revision - The stored revision.
+ */
+export const getRevisionFiles = (revision: SnippetRevision): RevisionFile[] => {
+    if (Array.isArray(revision.files) && revision.files.length > 0) {
+        return revision.files as RevisionFile[];
+    }
+    return [{
+        filename: getDefaultFilename(revision.language),
+        language: revision.language,
+        content: revision.content,
+    }];
+};
+
+/**
+ * A revision as anyone but the author may read it. Revisions recorded while the snippet was
+ * private were never scanned, so secrets in their content and files are redacted.
+ * @param {SnippetRevision} revision - The stored revision.
+ */
+export const redactRevision = <T extends SnippetRevision>(revision: T): T => ({
+    ...revision,
+    content: redactSecrets(revision.content),
+    files: Array.isArray(revision.files)
+        ? (revision.files as RevisionFile[]).map(file => ({ ...file, content: redactSecrets(file.content) }))
+        : revision.files,
+});
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+export type StackTraceFormat = 'node' | 'browser' | 'python' | 'java';
+
+export type StackFrame = {
+    function: string | null;
+    file: string | null;
+    line: number | null;
+    column: number | null;
+};
+
+export type ParsedStackTrace = {
+    format: StackTraceFormat;
+    errorType: string;
+    message: string | null;
+    // Innermost (where the error was thrown) first
+    frames: StackFrame[];
+    fingerprint: string;
+};
+
+// Frames kept with a bug, and how many of them identify the crash in its fingerprint
+const MAX_FRAMES = 10;
+const FINGERPRINT_FRAMES = 5;
+
+// Only the start of a report is searched for a trace, and longer lines (minified code, data
+// dumps) are skipped, so parsing stays cheap however large the report is
+const MAX_LINES = 200;
+const MAX_LINE_LENGTH = 1024;
+
+// The patterns below match lines with the surrounding whitespace already trimmed.
+
+// `at fn (file:line:col)` or `at file:line:col` (Node.js, Chrome, Edge)
+const V8_FRAME = /^at\s+(?:([^\s()][^()]*?)\s+\()?([^\s()].*?)(?::(\d+))?(?::(\d+))?\)?$/;
+// `fn@url:line:col` (Firefox, Safari)
+const GECKO_FRAME = /^([^@\s]*)@(\S.*):(\d+):(\d+)$/;
+// `File "path", line N, in fn`
+const PYTHON_FRAME = /^File\s+"([^"]+)",\s+line\s+(\d+)(?:,\s+in\s+(\S.*))?$/;
+// `at pkg.Class.method(File.java:10)`
+const JAVA_FRAME = /^at\s+([\w$.<>/]+)\(([^()]*)\)$/;
+
+// `TypeError: message`, optionally prefixed the way browsers log uncaught errors
+const JS_ERROR_LINE = /^(?:Uncaught\s+(?:\(in promise\)\s+)?)?([A-Za-z_$][\w$.]*(?:Error|Exception)|Error)(?::\s*(.*))?$/;
+// `Exception in thread "main" java.lang.IllegalStateException: message`
+const JAVA_ERROR_LINE = /^(?:Exception in thread "[^"]*"\s+)?((?:[a-zA-Z_$][\w$]*\.)+[A-Z][\w$]*)(?::\s*(.*))?$/;
+// `ValueError: message` at the end of a Python traceback
+const PYTHON_ERROR_LINE = /^([A-Za-z_][\w.]*)(?::\s*(.*))?$/;
+
+const matchLine = (line: string, pattern: RegExp) => line.trim().match(pattern);
+
+const toNumber = (value: string | undefined) => (value ? parseInt(value, 10) : null);
+
+const isBrowserFile = (file: string | null) => !!file && /^(https?|webpack(-internal)?|chrome-extension|moz-extension):\/\//.test(file);
+
+// Files that are rarely where the bug is: runtime internals and dependencies
+const isLibraryFrame = (frame: StackFrame) =>
+    !frame.file ||
+    /^(node:|internal\/)|<anonymous>|node_modules|site-packages/.test(frame.file) ||
+    /^(java\.base\/|(java|javax|jdk|sun)\.)/.test(frame.function ?? '');
+
+const basename = (file: string) => file.split(/[?#]/)[0].split(/[\\/]/).pop() || file;
+
+/**
+ * Identifies a frame by its function and file name, without the line number or directory,
+ * which change between versions and machines.
+ */
+export const getFrameKey = (frame: StackFrame) => `${frame.function ?? ''}@${frame.file ? basename(frame.file) : ''}`;
+
+/**
+ * Fingerprints a crash by its error type and the innermost frames of the application's own
+ * code. Without frames the normalized message is used instead.
+ */
+const fingerprintTrace = (errorType: string, message: string | null, frames: StackFrame[]) => {
+    const appFrames = frames.filter(frame => !isLibraryFrame(frame));
+    const keyFrames = (appFrames.length > 0 ? appFrames : frames).slice(0, FINGERPRINT_FRAMES);
+
+    const parts = keyFrames.length > 0
+        ? keyFrames.map(getFrameKey)
+        : [(message ?? '').toLowerCase().replace(/(["'`]).*?\1/g, '""').replace(/\d+/g, '#')];
+
+    return crypto.createHash('sha256').update([errorType, ...parts].join('\n')).digest('hex').slice(0, 16);
+};
+
+const buildTrace = (format: StackTraceFormat, errorType: string, message: string | null, frames: StackFrame[]): ParsedStackTrace => ({
+    format,
+    errorType,
+    message: message || null,
+    frames: frames.slice(0, MAX_FRAMES),
+    fingerprint: fingerprintTrace(errorType, message, frames),
+});
+
+// Uses the last traceback, which is the exception that was finally raised.
+const parsePython = (lines: string[]) => {
+    const start = lines.map(line => line.trim()).lastIndexOf('Traceback (most recent call last):');
+    if (start === -1) return null;
+
+    const frames: StackFrame[] = [];
+    let i = start + 1;
+    for (; i < lines.length; i++) {
+        const match = matchLine(lines[i], PYTHON_FRAME);
+        if (match) {
+            frames.push({ function: match[3] ?? null, file: match[1], line: toNumber(match[2]), column: null });
+        } else if (!/^\s/.test(lines[i]) && lines[i].trim() !== '') {
+            break; // The first unindented line after the frames names the exception
+        }
+    }
+
+    const error = i < lines.length ? matchLine(lines[i], PYTHON_ERROR_LINE) : null;
+    if (!error || frames.length === 0) return null;
+
+    // Python lists the most recent call last
+    return buildTrace('python', error[1], error[2] ?? null, frames.reverse());
+};
+
+const parseJava = (lines: string[]) => {
+    const firstFrame = lines.findIndex(line => JAVA_FRAME.test(line.trim()));
+    if (firstFrame === -1) return null;
+
+    let error: RegExpMatchArray | null = null;
+    for (let i = firstFrame - 1; i >= 0 && !error; i--) {
+        error = matchLine(lines[i], JAVA_ERROR_LINE);
+    }
+    if (!error) return null;
+
+    const frames: StackFrame[] = [];
+    for (const line of lines.slice(firstFrame)) {
+        const match = matchLine(line, JAVA_FRAME);
+        if (!match) {
+            if (/^\s*(Caused by:|Suppressed:)/.test(line)) break;
+            continue; // e.g. "... 12 more"
+        }
+        const [file, lineNumber] = match[2].split(':');
+        frames.push({
+            function: match[1],
+            file: file === 'Native Method' || file === 'Unknown Source' ? null : file,
+            line: toNumber(lineNumber),
+            column: null,
+        });
+    }
+
+    return buildTrace('java', error[1], error[2] ?? null, frames);
+};
+
+const parseJavaScript = (lines: string[]) => {
+    const frames: StackFrame[] = [];
+    let firstFrame = -1;
+    let isGecko = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const v8 = /^\s*at\s/.test(lines[i]) ? matchLine(lines[i], V8_FRAME) : null;
+        const gecko = !v8 ? matchLine(lines[i], GECKO_FRAME) : null;
+        if (v8) {
+            frames.push({ function: v8[1] ?? null, file: v8[2], line: toNumber(v8[3]), column: toNumber(v8[4]) });
+        } else if (gecko) {
+            isGecko = true;
+            frames.push({ function: gecko[1] || null, file: gecko[2], line: toNumber(gecko[3]), column: toNumber(gecko[4]) });
+        } else if (frames.length > 0) {
+            break; // Only the first trace in the content
+        } else {
+            continue;
+        }
+        if (firstFrame === -1) firstFrame = i;
+    }
+    if (frames.length === 0) return null;
+
+    let error: RegExpMatchArray | null = null;
+    for (let i = firstFrame - 1; i >= 0 && !error; i--) {
+        error = matchLine(lines[i], JS_ERROR_LINE);
+    }
+
+    const format = isGecko || frames.some(frame => isBrowserFile(frame.file)) ? 'browser' : 'node';
+    return buildTrace(format, error?.[1] ?? 'Error', error?.[2] ?? null, frames);
+};
+
+/**
+ * Finds a stack trace in a bug report and extracts the error type, message and innermost
+ * frames. Understands Node.js and browser JavaScript (V8 and Firefox/Safari styles), Python
+ * tracebacks and Java (the top-level exception, not its causes).
+ * @param {string} content - The report text, which may contain other text around the trace.
+ * @returns The parsed trace, or null when none was found.
+ */
+export const parseStackTrace = (content: string): ParsedStackTrace | null => {
+    const lines = content
+        .slice(0, MAX_LINES * (MAX_LINE_LENGTH + 2))
+        .split(/\r\n?|\n/, MAX_LINES)
+        .map(line => (line.length > MAX_LINE_LENGTH ? '' : line));
+    return parsePython(lines) ?? parseJava(lines) ?? parseJavaScript(lines);
+};
+
+/**
+ * The columns stored with a bug for its parsed stack trace (left empty when it has none).
+ * @param {ParsedStackTrace | null} trace - The report's trace, from parseStackTrace.
+ */
+export const getStackTraceFields = (trace: ParsedStackTrace | null) => {
+    return {
+        errorType: trace?.errorType ?? null,
+        errorMessage: trace?.message ?? null,
+        errorFingerprint: trace?.fingerprint ?? null,
+        stackTrace: trace ? ({ format: trace.format, frames: trace.frames } as Prisma.InputJsonObject) : undefined,
+    };
+};
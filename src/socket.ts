@@ -1,6 +1,20 @@
 import { Server, Socket } from 'socket.io';
 import http from 'http';
+import { RequestHandler } from 'express';
+import passport from 'passport';
 import { prisma } from './config/db';
+import { sessionMiddleware } from './config/session';
+import { registerDocCollabHandlers, startDocCollabPersistence } from './services/docCollabService';
+
+// Runs Express middleware on the Socket.IO handshake request only, not on every polling request.
+const onlyForHandshake = (middleware: RequestHandler) => (req: any, res: any, next: (err?: any) => void) => {
+  const isHandshake = req._query.sid === undefined;
+  if (isHandshake) {
+    middleware(req, res, next);
+  } else {
+    next();
+  }
+};
 
 let io: Server;
 
@@ -20,6 +34,10 @@ export const initializeSocket = (server: http.Server): Server => {
     }
   });
 
+  // Resolve the logged-in user from the session cookie, as `socket.request.user`
+  io.engine.use(onlyForHandshake(sessionMiddleware));
+  io.engine.use(onlyForHandshake(passport.session()));
+
   io.on('connection', (socket: Socket) => {
     console.log(`A user connected: ${socket.id}`);
 
@@ -54,6 +72,9 @@ export const initializeSocket = (server: http.Server): Server => {
     });
 
 
+    // Collaborative doc editing, in a room of its own per doc
+    registerDocCollabHandlers(socket);
+
     /**
      * Handles user disconnection.
      */
@@ -62,6 +83,8 @@ export const initializeSocket = (server: http.Server): Server => {
     });
   });
 
+  startDocCollabPersistence();
+
   return io;
 };
 
@@ -0,0 +1,157 @@
+export type DiffLine = {
+  type: 'equal' | 'added' | 'removed';
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+};
+
+// Texts beyond these limits aren't diffed: the work grows with lines × edits
+export const MAX_DIFF_LINES = 2000;
+export const MAX_DIFF_BYTES = 128 * 1024;
+
+export class DiffTooLargeError extends Error {
+  constructor() {
+    super(`Texts over ${MAX_DIFF_LINES} lines or ${MAX_DIFF_BYTES / 1024} KB are too large to diff`);
+    this.name = 'DiffTooLargeError';
+  }
+}
+
+const countLines = (text: string) => {
+  let lines = 1;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) lines++;
+  return lines;
+};
+
+/**
+ * Whether two texts are small enough for diffLines.
+ */
+export function canDiffLines(oldText: string, newText: string) {
+  return Buffer.byteLength(oldText) + Buffer.byteLength(newText) <= MAX_DIFF_BYTES &&
+    countLines(oldText) <= MAX_DIFF_LINES &&
+    countLines(newText) <= MAX_DIFF_LINES;
+}
+
+type Range = { a: string[]; b: string[]; out: DiffLine[] };
+
+const pushEqual = ({ a, out }: Range, x: number, y: number) =>
+  out.push({ type: 'equal', content: a[x], oldLine: x + 1, newLine: y + 1 });
+
+const pushChanges = ({ a, b, out }: Range, aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+  for (let x = aStart; x < aEnd; x++) out.push({ type: 'removed', content: a[x], oldLine: x + 1, newLine: null });
+  for (let y = bStart; y < bEnd; y++) out.push({ type: 'added', content: b[y], oldLine: null, newLine: y + 1 });
+};
+
+/**
+ * Finds where the shortest edit script of a[aStart, aEnd) → b[bStart, bEnd) crosses its middle
+ * by running Myers' search from both ends at once, keeping only the current frontiers.
+ * Both ranges are non-empty and differ in their first and last lines.
+ */
+function findMiddle({ a, b }: Range, aStart: number, aEnd: number, bStart: number, bEnd: number) {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const reverse = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet while extending forward, otherwise in reverse
+  const meetForward = delta % 2 !== 0;
+  // Diagonals that ran off the edge of the grid are skipped on later rounds
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let reverseStart = 0;
+  let reverseEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = (k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]))
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (meetForward) {
+        const reverseIndex = offset + delta - k;
+        const reverseX = reverseIndex >= 0 && reverseIndex < reverse.length ? reverse[reverseIndex] : -1;
+        if (reverseX !== -1 && x >= n - reverseX) {
+          return { x: aStart + x, y: bStart + y };
+        }
+      }
+    }
+
+    for (let k = -d + reverseStart; k <= d - reverseEnd; k += 2) {
+      let x = (k === -d || (k !== d && reverse[offset + k - 1] < reverse[offset + k + 1]))
+        ? reverse[offset + k + 1]
+        : reverse[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      reverse[offset + k] = x;
+      if (x > n) {
+        reverseEnd += 2;
+      } else if (y > m) {
+        reverseStart += 2;
+      } else if (!meetForward) {
+        const forwardIndex = offset + delta - k;
+        const forwardX = forwardIndex >= 0 && forwardIndex < forward.length ? forward[forwardIndex] : -1;
+        if (forwardX !== -1 && forwardX >= n - x) {
+          return { x: aStart + forwardX, y: bStart + forwardX - (forwardIndex - offset) };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function diffRange(range: Range, aStart: number, aEnd: number, bStart: number, bEnd: number) {
+  const { a, b } = range;
+
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    pushEqual(range, aStart++, bStart++);
+  }
+  let suffix = 0;
+  while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  const middle = aStart < aEnd && bStart < bEnd ? findMiddle(range, aStart, aEnd, bStart, bEnd) : null;
+  if (middle) {
+    diffRange(range, aStart, middle.x, bStart, middle.y);
+    diffRange(range, middle.x, aEnd, middle.y, bEnd);
+  } else {
+    pushChanges(range, aStart, aEnd, bStart, bEnd);
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    pushEqual(range, aEnd + i, bEnd + i);
+  }
+}
+
+/**
+ * Computes a line-level diff between two texts using Myers' algorithm in linear space.
+ * Line numbers are 1-based; `oldLine` is null for added lines and `newLine` is null for removed ones.
+ * @throws {DiffTooLargeError} When the texts are over MAX_DIFF_LINES or MAX_DIFF_BYTES (see canDiffLines).
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  if (!canDiffLines(oldText, newText)) {
+    throw new DiffTooLargeError();
+  }
+
+  const range: Range = { a: oldText.split('\n'), b: newText.split('\n'), out: [] };
+  diffRange(range, 0, range.a.length, 0, range.b.length);
+  return range.out;
+}
@@ -0,0 +1,130 @@
+export type FrontMatterValue = string | number | boolean | null | string[];
+
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+export class FrontMatterError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (front-matter line ${line})`);
+    this.name = 'FrontMatterError';
+  }
+}
+
+const FRONT_MATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const KEY_PATTERN = /^([A-Za-z_][\w-]*)[ \t]*:(?:[ \t]+(.*))?$/;
+
+// Drops a trailing `# comment`, leaving `#` inside quotes alone.
+const stripComment = (value: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i).trimEnd();
+    }
+  }
+  return value.trimEnd();
+};
+
+const parseString = (raw: string, line: number): string => {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new FrontMatterError('Invalid double-quoted string', line);
+    }
+  }
+  if (raw.startsWith("'")) {
+    if (!raw.endsWith("'") || raw.length < 2) {
+      throw new FrontMatterError('Invalid single-quoted string', line);
+    }
+    return raw.slice(1, -1).replace(/''/g, "'");
+  }
+  return raw;
+};
+
+const parseScalar = (raw: string, line: number): FrontMatterValue => {
+  if (raw === '' || raw === '~' || raw === 'null') return null;
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  if (raw.startsWith('[')) {
+    if (!raw.endsWith(']')) {
+      throw new FrontMatterError('Unterminated list', line);
+    }
+    const inner = raw.slice(1, -1).trim();
+    if (inner === '') return [];
+    // Splits on commas outside quotes
+    const items = [...inner.matchAll(/\s*("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)\s*(?:,|$)/g)];
+    return items.map(item => parseString(item[1].trim(), line)).filter(item => item !== '');
+  }
+  return parseString(raw, line);
+};
+
+/**
+ * Splits Markdown into its YAML front-matter and body. Supports the subset of YAML that
+ * front-matter uses in practice: `key: value` scalars (plain, quoted, numbers, booleans),
+ * lists written inline (`[a, b]`) or as `- item` lines, `|`/`>` block text and comments.
+ * @returns The parsed keys (empty when there is no front-matter) and the remaining Markdown.
+ * @throws {FrontMatterError} When the front-matter can't be parsed.
+ */
+export const parseFrontMatter = (text: string): { data: FrontMatter; body: string } => {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { data: {}, body: text.replace(/^\uFEFF/, '') };
+  }
+
+  const data: FrontMatter = {};
+  const lines = match[1].split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 2; // after the opening ---
+    const line = lines[i];
+    if (line.trim() === '' || line.trim().startsWith('#')) continue;
+
+    const keyMatch = line.match(KEY_PATTERN);
+    if (!keyMatch) {
+      throw new FrontMatterError('Expected "key: value"', lineNumber);
+    }
+    const key = keyMatch[1];
+    const value = stripComment(keyMatch[2] ?? '');
+
+    // Block text: the following indented lines, kept as lines (|) or folded into one (>)
+    if (value === '|' || value === '>' || value === '|-' || value === '>-') {
+      const block: string[] = [];
+      while (i + 1 < lines.length && (/^\s+\S/.test(lines[i + 1]) || lines[i + 1].trim() === '')) {
+        block.push(lines[++i].trim());
+      }
+      data[key] = (value.startsWith('|') ? block.join('\n') : block.join(' ').replace(/\s+/g, ' ')).trim();
+      continue;
+    }
+
+    // Block list: the following `- item` lines
+    if (value === '') {
+      const items: string[] = [];
+      while (i + 1 < lines.length && /^\s*-(\s|$)/.test(lines[i + 1])) {
+        const item = stripComment(lines[++i].replace(/^\s*-\s*/, ''));
+        if (item !== '') items.push(parseString(item, i + 2));
+      }
+      data[key] = items.length > 0 ? items : null;
+      continue;
+    }
+
+    data[key] = parseScalar(value, lineNumber);
+  }
+
+  return { data, body: text.slice(match[0].length) };
+};
+
+/**
+ * Prefixes Markdown with YAML front-matter. Values are written as JSON, which is valid
+ * YAML, so any text round-trips safely; null and undefined values are left out.
+ */
+export const stringifyFrontMatter = (data: Record<string, FrontMatterValue | undefined>, body: string) => {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n\n${body}`;
+};
@@ -0,0 +1,88 @@
+// File extensions for the languages snippets are commonly tagged with, keyed by lowercase name.
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  js: 'js',
+  jsx: 'jsx',
+  typescript: 'ts',
+  ts: 'ts',
+  tsx: 'tsx',
+  python: 'py',
+  py: 'py',
+  java: 'java',
+  kotlin: 'kt',
+  swift: 'swift',
+  go: 'go',
+  golang: 'go',
+  rust: 'rs',
+  ruby: 'rb',
+  php: 'php',
+  c: 'c',
+  cpp: 'cpp',
+  'c++': 'cpp',
+  csharp: 'cs',
+  'c#': 'cs',
+  scala: 'scala',
+  dart: 'dart',
+  html: 'html',
+  css: 'css',
+  scss: 'scss',
+  sass: 'sass',
+  less: 'less',
+  json: 'json',
+  yaml: 'yml',
+  yml: 'yml',
+  toml: 'toml',
+  xml: 'xml',
+  markdown: 'md',
+  md: 'md',
+  sql: 'sql',
+  bash: 'sh',
+  shell: 'sh',
+  sh: 'sh',
+  powershell: 'ps1',
+  dockerfile: 'dockerfile',
+  graphql: 'graphql',
+  prisma: 'prisma',
+  vue: 'vue',
+  svelte: 'svelte',
+  lua: 'lua',
+  r: 'r',
+  perl: 'pl',
+  elixir: 'ex',
+  haskell: 'hs',
+};
+
+/**
+ * Returns the file extension (without the dot) for a language, or "txt" when unknown.
+ */
+export const getFileExtension = (language: string) =>
+  LANGUAGE_EXTENSIONS[language.toLowerCase().trim()] || 'txt';
+
+/**
+ * Builds a default filename for content that was submitted without one.
+ */
+export const getDefaultFilename = (language: string, basename = 'snippet') =>
+  `${basename}.${getFileExtension(language)}`;
+
+/**
+ * Appends the language's extension to a filename that doesn't already have one.
+ */
+export const withFileExtension = (filename: string, language: string) =>
+  /\.[^./]+$/.test(filename) ? filename : `${filename}.${getFileExtension(language)}`;
+
+// Reverse lookup from extension to language; the first (full) name listed for an extension wins.
+const EXTENSION_LANGUAGES: Record<string, string> = Object.entries(LANGUAGE_EXTENSIONS).reduce(
+  (map, [language, extension]) => (map[extension] ? map : { ...map, [extension]: language }),
+  {} as Record<string, string>
+);
+
+/**
+ * Returns the language implied by a filename's extension, or null when it has none or it's unknown.
+ */
+export const getLanguageFromFilename = (filename: string) => {
+  const match = filename.toLowerCase().match(/\.([^./]+)$/);
+  if (match) {
+    return EXTENSION_LANGUAGES[match[1]] || null;
+  }
+  return filename.toLowerCase() === 'dockerfile' ? 'dockerfile' : null;
+};
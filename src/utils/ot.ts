@@ -0,0 +1,185 @@
+/**
+ * Operational transformation for plain text, in the same JSON format as ot.js's
+ * TextOperation so clients can use that library: an operation is a list of components
+ * walked over the whole document, where a positive integer retains that many characters,
+ * a string inserts it and a negative integer deletes that many characters.
+ * Positions are UTF-16 code unit offsets, like JavaScript string indices.
+ */
+export type TextOperation = (number | string)[];
+
+const isRetain = (component: number | string | undefined): component is number =>
+  typeof component === 'number' && component > 0;
+
+const isDelete = (component: number | string | undefined): component is number =>
+  typeof component === 'number' && component < 0;
+
+const isInsert = (component: number | string | undefined): component is string =>
+  typeof component === 'string';
+
+// Appends components while keeping the operation normalized: adjacent components of the
+// same kind are merged and an insert always comes before a delete at the same position.
+class OperationBuilder {
+  readonly ops: TextOperation = [];
+
+  retain(n: number) {
+    if (n === 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isRetain(last)) {
+      this.ops[this.ops.length - 1] = last + n;
+    } else {
+      this.ops.push(n);
+    }
+    return this;
+  }
+
+  insert(text: string) {
+    if (text === '') return this;
+    const ops = this.ops;
+    const last = ops[ops.length - 1];
+    if (isInsert(last)) {
+      ops[ops.length - 1] = last + text;
+    } else if (isDelete(last)) {
+      const beforeLast = ops[ops.length - 2];
+      if (isInsert(beforeLast)) {
+        ops[ops.length - 2] = beforeLast + text;
+      } else {
+        ops[ops.length] = last;
+        ops[ops.length - 2] = text;
+      }
+    } else {
+      ops.push(text);
+    }
+    return this;
+  }
+
+  delete(n: number) {
+    if (n === 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isDelete(last)) {
+      this.ops[this.ops.length - 1] = last - n;
+    } else {
+      this.ops.push(-n);
+    }
+    return this;
+  }
+}
+
+/**
+ * Checks that a value received from a client is a well-formed operation.
+ */
+export const isTextOperation = (value: unknown): value is TextOperation =>
+  Array.isArray(value) &&
+  value.every(component =>
+    (typeof component === 'string' && component.length > 0) ||
+    (Number.isSafeInteger(component) && component !== 0)
+  );
+
+/**
+ * The length of the document an operation can be applied to.
+ */
+export const baseLength = (op: TextOperation) =>
+  op.reduce<number>((length, component) => (isInsert(component) ? length : length + Math.abs(component)), 0);
+
+/**
+ * Applies an operation to a document.
+ * @throws {Error} When the operation doesn't span exactly the whole document.
+ */
+export const applyOperation = (text: string, op: TextOperation) => {
+  if (baseLength(op) !== text.length) {
+    throw new Error('Operation length does not match the document');
+  }
+
+  const parts: string[] = [];
+  let index = 0;
+  for (const component of op) {
+    if (isInsert(component)) {
+      parts.push(component);
+    } else if (isRetain(component)) {
+      parts.push(text.slice(index, index + component));
+      index += component;
+    } else {
+      index -= component;
+    }
+  }
+  return parts.join('');
+};
+
+/**
+ * Transforms two concurrent operations on the same document into a pair that can be applied
+ * after each other: `apply(apply(doc, a), bPrime)` equals `apply(apply(doc, b), aPrime)`.
+ * When both insert at the same position, `a`'s text comes first.
+ * @returns {[TextOperation, TextOperation]} `[aPrime, bPrime]`
+ * @throws {Error} When the operations aren't based on documents of the same length.
+ */
+export const transformOperations = (a: TextOperation, b: TextOperation): [TextOperation, TextOperation] => {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new Error('Concurrent operations must be based on the same document');
+  }
+
+  const aPrime = new OperationBuilder();
+  const bPrime = new OperationBuilder();
+  let i = 0;
+  let j = 0;
+  let opA = a[i++];
+  let opB = b[j++];
+
+  while (opA !== undefined || opB !== undefined) {
+    if (isInsert(opA)) {
+      aPrime.insert(opA);
+      bPrime.retain(opA.length);
+      opA = a[i++];
+      continue;
+    }
+    if (isInsert(opB)) {
+      aPrime.retain(opB.length);
+      bPrime.insert(opB);
+      opB = b[j++];
+      continue;
+    }
+    if (opA === undefined || opB === undefined) {
+      throw new Error('Concurrent operations must be based on the same document');
+    }
+
+    if (isRetain(opA) && isRetain(opB)) {
+      const length = Math.min(opA, opB);
+      aPrime.retain(length);
+      bPrime.retain(length);
+      [opA, opB] = [opA - length || a[i++], opB - length || b[j++]];
+    } else if (isDelete(opA) && isDelete(opB)) {
+      // Both deleted the same text, so neither side has anything left to do
+      const length = Math.min(-opA, -opB);
+      [opA, opB] = [opA + length || a[i++], opB + length || b[j++]];
+    } else if (isDelete(opA) && isRetain(opB)) {
+      const length = Math.min(-opA, opB);
+      aPrime.delete(length);
+      [opA, opB] = [opA + length || a[i++], opB - length || b[j++]];
+    } else if (isRetain(opA) && isDelete(opB)) {
+      const length = Math.min(opA, -opB);
+      bPrime.delete(length);
+      [opA, opB] = [opA - length || a[i++], opB + length || b[j++]];
+    }
+  }
+
+  return [aPrime.ops, bPrime.ops];
+};
+
+/**
+ * Moves a cursor position through an operation, e.g. to keep other users' cursors in
+ * place after an edit. Text inserted at the cursor pushes it forward.
+ */
+export const transformPosition = (position: number, op: TextOperation) => {
+  let remaining = position;
+  let newPosition = position;
+  for (const component of op) {
+    if (isRetain(component)) {
+      remaining -= component;
+    } else if (isInsert(component)) {
+      newPosition += component.length;
+    } else {
+      newPosition -= Math.min(remaining, -component);
+      remaining += component;
+    }
+    if (remaining < 0) break;
+  }
+  return newPosition;
+};
@@ -0,0 +1,34 @@
+/**
+ * Turns heading text into a URL fragment: lowercased, punctuation dropped and
+ * whitespace collapsed into single hyphens (e.g. "Getting Started!" -> "getting-started").
+ */
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Returns a slug generator for one document. Repeated headings get a numeric suffix
+ * ("setup", "setup-1", ...), so every slug in the document is unique and stays the same
+ * for as long as the headings before it don't change.
+ */
+export const createSlugger = () => {
+  const seen = new Map<string, number>();
+
+  return (text: string) => {
+    const base = slugify(text) || 'section';
+    let slug = base;
+    let count = seen.get(base) ?? 0;
+    while (seen.has(slug)) {
+      count++;
+      slug = `${base}-${count}`;
+    }
+    seen.set(base, count);
+    seen.set(slug, 0);
+    return slug;
+  };
+};
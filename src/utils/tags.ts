@@ -0,0 +1,13 @@
+// Upper bounds applied to every piece of tagged content.
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 50;
+
+/**
+ * Normalizes user-supplied tags: trimmed, lowercased, empty or overly long tags dropped,
+ * and at most 10 kept.
+ */
+export const normalizeTags = (tags: string[]) =>
+  tags
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0 && tag.length <= MAX_TAG_LENGTH)
+    .slice(0, MAX_TAGS);